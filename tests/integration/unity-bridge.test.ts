@@ -0,0 +1,266 @@
+/**
+ * UnityBridge integration tests
+ * Drives invoke(), retries, the outbound queue and saving through the mock Unity runtime
+ */
+
+import { UnityBridge } from '../../web-assets/src/js/unity-bridge';
+import { MOCK_SCENARIOS, MockScenario, MockUnityInstance } from '../../web-assets/src/js/bridge/mock-unity-runtime';
+import { UnityBridgeConfig } from '../../web-assets/src/types/unity-types';
+
+const TEST_SCENARIO = 'bridge-test';
+
+function useScenario(responses: MockScenario['responses']): void {
+    MOCK_SCENARIOS[TEST_SCENARIO] = { name: TEST_SCENARIO, steps: [], responses };
+}
+
+function createBridge(config: Partial<UnityBridgeConfig> = {}): UnityBridge {
+    return new UnityBridge({ runtime: 'mock', mockScenario: TEST_SCENARIO, coalesceFrames: false, timeout: 1000, ...config });
+}
+
+function sentMethods(bridge: UnityBridge): string[] {
+    const mock = bridge.getUnityInstance() as MockUnityInstance;
+    return mock.getReceivedMessages().map(message => message.method);
+}
+
+describe('UnityBridge with the mock runtime', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+        localStorage.clear();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        useScenario({});
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+        delete MOCK_SCENARIOS[TEST_SCENARIO];
+    });
+
+    describe('invoke', () => {
+        it('resolves with the result Unity answers with', async () => {
+            const combat = MOCK_SCENARIOS['combat-encounter'].responses!.UseCombatTechnique.result;
+            useScenario({ UseCombatTechnique: { success: true, delay: 300, result: combat } });
+            const bridge = createBridge();
+            await bridge.init();
+
+            const result = bridge.useCombatTechnique('palm-strike');
+            await jest.advanceTimersByTimeAsync(300);
+
+            await expect(result).resolves.toEqual(combat);
+        });
+
+        it('rejects with the error Unity reports', async () => {
+            useScenario({ EquipItem: { success: false, error: { code: 'SLOT_OCCUPIED', message: 'Slot taken' } } });
+            const bridge = createBridge();
+            await bridge.init();
+
+            const settled = expect(bridge.equipItem('iron-sword', 'main-hand'))
+                .rejects.toMatchObject({ code: 'SLOT_OCCUPIED', message: 'Slot taken' });
+            await jest.advanceTimersByTimeAsync(0);
+
+            await settled;
+        });
+
+        it('rejects results that do not match the method result schema', async () => {
+            useScenario({ UseCombatTechnique: { success: true, result: { enemy: 'wolf' } } });
+            const bridge = createBridge();
+            await bridge.init();
+
+            const settled = expect(bridge.useCombatTechnique('palm-strike')).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+            await jest.advanceTimersByTimeAsync(0);
+
+            await settled;
+        });
+
+        it('rejects a malformed response straight away instead of waiting for the timeout', async () => {
+            const bridge = createBridge();
+            await bridge.init();
+
+            const result = bridge.useItem('healing-pill');
+            const request = JSON.parse((bridge.getUnityInstance() as MockUnityInstance).getReceivedMessages()[0].value);
+            window.UnityToHTML.onResponse(JSON.stringify({ requestId: request.requestId, success: 'yes' }));
+
+            await expect(result).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+        });
+    });
+
+    describe('timeouts and retries', () => {
+        it('does not resend mutations when they time out', async () => {
+            useScenario({ UseItem: { success: true, delay: 5000, result: null } });
+            const bridge = createBridge();
+            await bridge.init();
+
+            const result = bridge.useItem('healing-pill');
+            const settled = expect(result).rejects.toMatchObject({ code: 'TIMEOUT' });
+            await jest.advanceTimersByTimeAsync(1000);
+
+            await settled;
+            expect(sentMethods(bridge).filter(method => method === 'UseItem')).toHaveLength(1);
+        });
+
+        it('resends idempotent requests and resolves with a late answer', async () => {
+            useScenario({ SaveGame: { success: true, delay: 1500, result: null } });
+            const bridge = createBridge();
+            await bridge.init();
+
+            const result = bridge.saveGame({ slot: 'auto' });
+            await jest.advanceTimersByTimeAsync(1500);
+
+            await expect(result).resolves.toBeNull();
+            expect(sentMethods(bridge).filter(method => method === 'SaveGame')).toHaveLength(2);
+        });
+
+        it('gives up once the retries are used', async () => {
+            useScenario({ SaveGame: { success: true, delay: 10000, result: null } });
+            const bridge = createBridge({ retryAttempts: 1 });
+            await bridge.init();
+
+            const result = bridge.saveGame({ slot: 'auto' });
+            const settled = expect(result).rejects.toMatchObject({ code: 'TIMEOUT' });
+            await jest.advanceTimersByTimeAsync(2000);
+
+            await settled;
+            expect(sentMethods(bridge).filter(method => method === 'SaveGame')).toHaveLength(2);
+        });
+
+        it('starts the timeout only when a queued request is posted', async () => {
+            const bridge = createBridge();
+            let settled = false;
+            const result = bridge.useItem('healing-pill').finally(() => {
+                settled = true;
+            });
+
+            await jest.advanceTimersByTimeAsync(5000);
+            expect(settled).toBe(false);
+
+            await bridge.init();
+            await jest.advanceTimersByTimeAsync(0);
+
+            await expect(result).resolves.toBeNull();
+        });
+    });
+
+    describe('handshake', () => {
+        it('keeps the baseline features when Unity does not answer in time', async () => {
+            useScenario({ UIReady: { success: true, delay: 60000, result: null } });
+            const bridge = createBridge();
+            await bridge.init();
+
+            const handshake = bridge.performHandshake();
+            await jest.advanceTimersByTimeAsync(10000);
+            const status = await handshake;
+
+            expect(status.compatible).toBe(true);
+            expect(bridge.isMethodSupported('UseItem')).toBe(true);
+            expect(bridge.isMethodSupported('SetQualitySettings')).toBe(false);
+        });
+
+        it('disables everything for a build with another major protocol version', async () => {
+            useScenario(MOCK_SCENARIOS['stale-build'].responses);
+            const bridge = createBridge();
+            await bridge.init();
+
+            const handshake = bridge.performHandshake();
+            await jest.advanceTimersByTimeAsync(0);
+            const status = await handshake;
+
+            expect(status.compatible).toBe(false);
+            expect(bridge.isMethodSupported('UseItem')).toBe(false);
+        });
+    });
+
+    describe('outbound queue', () => {
+        it('delivers messages sent before Unity is ready, highest priority first', async () => {
+            const bridge = createBridge();
+            bridge.travelToLocation('sect');
+            bridge.send('UserLogin', { userId: 'u1', username: 'Lin', level: 3 });
+
+            await bridge.init();
+
+            expect(sentMethods(bridge)).toEqual(['UserLogin', 'TravelToLocation']);
+        });
+
+        it('keeps only the latest message of a coalescing group', async () => {
+            const bridge = createBridge();
+            bridge.startCultivation();
+            bridge.stopCultivation();
+            bridge.startCultivation();
+
+            await bridge.init();
+
+            expect(sentMethods(bridge)).toEqual(['StartCultivation']);
+        });
+
+        it('settles requests coalesced into a newer one together with it', async () => {
+            const bridge = createBridge();
+            const first = bridge.saveGame({ level: 1 });
+            const second = bridge.saveGame({ level: 2 });
+
+            await bridge.init();
+            await jest.advanceTimersByTimeAsync(0);
+
+            await expect(Promise.all([first, second])).resolves.toEqual([null, null]);
+            expect(sentMethods(bridge)).toEqual(['SaveGame']);
+        });
+
+        it('rejects requests that overflow the queue', async () => {
+            const bridge = createBridge({ maxQueueSize: 1 });
+            const dropped = bridge.useItem('healing-pill');
+            bridge.send('UserLogin', { userId: 'u1', username: 'Lin', level: 3 });
+
+            await expect(dropped).rejects.toMatchObject({ code: 'QUEUE_FULL' });
+        });
+    });
+
+    describe('saving', () => {
+        it('sends the save data inside the request envelope', async () => {
+            const bridge = createBridge();
+            await bridge.init();
+
+            const result = bridge.saveGame({ player: { level: 4 } });
+            await jest.advanceTimersByTimeAsync(0);
+            await result;
+
+            const message = (bridge.getUnityInstance() as MockUnityInstance).getReceivedMessages()[0];
+            expect(message.gameObject).toBe(bridge.getRoute('SaveGame'));
+            expect(JSON.parse(message.value).payload).toEqual({ player: { level: 4 } });
+        });
+
+        it('keeps a save queued before Unity loaded across a page reload', async () => {
+            const unloaded = createBridge();
+            unloaded.saveGame({ player: { level: 4 } }).catch(() => undefined);
+
+            const reloaded = createBridge();
+            await reloaded.init();
+
+            const message = (reloaded.getUnityInstance() as MockUnityInstance).getReceivedMessages()[0];
+            expect(message.method).toBe('SaveGame');
+            expect(JSON.parse(message.value).payload).toEqual({ player: { level: 4 } });
+        });
+
+        it('sends a save restored after a reload as a new request and settles it', async () => {
+            const unloaded = createBridge();
+            unloaded.saveGame({ player: { level: 4 } }).catch(() => undefined);
+
+            const reloaded = createBridge();
+            await reloaded.init();
+            expect(reloaded.getDebugInfo().pendingRequests).toEqual(['SaveGame']);
+
+            await jest.advanceTimersByTimeAsync(0);
+            expect(reloaded.getDebugInfo().pendingRequests).toEqual([]);
+        });
+
+        it('loads a save by sending it to Unity', async () => {
+            const bridge = createBridge();
+            await bridge.init();
+
+            bridge.loadGame({ player: { level: 4 } });
+
+            const message = (bridge.getUnityInstance() as MockUnityInstance).getReceivedMessages()[0];
+            expect(message.method).toBe('LoadGame');
+            expect(JSON.parse(message.value)).toEqual({ player: { level: 4 } });
+        });
+    });
+});
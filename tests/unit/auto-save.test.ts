@@ -0,0 +1,71 @@
+/**
+ * AutoSaveScheduler unit tests
+ * Configuration from the Steam cloudSaves settings and saves when the page is hidden
+ */
+
+import { AutoSaveScheduler, resolveAutoSaveConfig } from '../../web-assets/src/js/services/auto-save';
+import { GameStore, createInitialGameState } from '../../web-assets/src/js/services/game-store';
+
+function setInCombat(store: GameStore, isInCombat: boolean): void {
+    const state = store.getState();
+    store.dispatch({ type: 'unity/stateChanged', state: { ...state, game: { ...state.game, isInCombat } } }, 'unity');
+}
+
+function hidePage(): void {
+    Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+}
+
+describe('resolveAutoSaveConfig', () => {
+    it('reads the interval and switch from cloudSaves', () => {
+        expect(resolveAutoSaveConfig({ autoSave: false, autoSaveInterval: 120 })).toEqual({ autoSave: false, autoSaveInterval: 120 });
+    });
+
+    it('falls back to the defaults for missing or invalid values', () => {
+        expect(resolveAutoSaveConfig({ autoSaveInterval: 0 })).toEqual({ autoSave: true, autoSaveInterval: 300 });
+    });
+});
+
+describe('AutoSaveScheduler', () => {
+    let store: GameStore;
+    let save: jest.Mock;
+    let scheduler: AutoSaveScheduler;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        store = new GameStore(createInitialGameState());
+        save = jest.fn().mockResolvedValue(undefined);
+        scheduler = new AutoSaveScheduler(store, save, () => undefined, { autoSave: true, autoSaveInterval: 300 });
+    });
+
+    afterEach(() => {
+        scheduler.destroy();
+        delete (document as { visibilityState?: string }).visibilityState;
+        jest.restoreAllMocks();
+    });
+
+    it('saves when the page is hidden', () => {
+        hidePage();
+
+        expect(save).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the pre-fight save when the page is hidden mid-fight and saves once the fight ends', () => {
+        setInCombat(store, true);
+        hidePage();
+        expect(save).not.toHaveBeenCalled();
+
+        setInCombat(store, false);
+        expect(save).toHaveBeenCalledTimes(1);
+    });
+
+    it('holds saves until released', () => {
+        scheduler.hold();
+        hidePage();
+        scheduler.request('item-equip');
+        expect(save).not.toHaveBeenCalled();
+
+        scheduler.release();
+        expect(save).toHaveBeenCalledTimes(1);
+    });
+});
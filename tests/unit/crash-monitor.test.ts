@@ -0,0 +1,72 @@
+/**
+ * UnityCrashMonitor unit tests
+ * Only Emscripten aborts and wasm traps from the Unity scripts count as crashes
+ */
+
+import { UnityCrashMonitor, isFatalUnityError } from '../../web-assets/src/js/bridge/crash-monitor';
+import { UnityModule } from '../../web-assets/src/types/unity-types';
+
+const UNITY_SCRIPTS = ['chaos-world.loader.js', 'chaos-world.framework.js', 'chaos-world.wasm'];
+
+function dispatchError(message: string, filename: string): void {
+    window.dispatchEvent(new ErrorEvent('error', { message, filename }));
+}
+
+describe('isFatalUnityError', () => {
+    it.each([
+        'Aborted(OOM)',
+        'abort(OOM). Build with -s ASSERTIONS=1 for more info.',
+        'Uncaught RuntimeError: unreachable',
+        'RuntimeError: memory access out of bounds'
+    ])('matches %s', message => {
+        expect(isFatalUnityError(message)).toBe(true);
+    });
+
+    it.each([
+        'AbortError: The user aborted a request.',
+        'TypeError: NetworkError: host unreachable',
+        'Failed to load chaos-world.wasm',
+        'RuntimeError: something else'
+    ])('ignores %s', message => {
+        expect(isFatalUnityError(message)).toBe(false);
+    });
+});
+
+describe('UnityCrashMonitor', () => {
+    let onCrash: jest.Mock;
+    let monitor: UnityCrashMonitor;
+
+    beforeEach(() => {
+        onCrash = jest.fn();
+        monitor = new UnityCrashMonitor(onCrash);
+    });
+
+    afterEach(() => {
+        monitor.detach();
+    });
+
+    it('reports a trap thrown by the Unity framework', () => {
+        monitor.attach(null, undefined, UNITY_SCRIPTS);
+
+        dispatchError('Uncaught RuntimeError: unreachable', 'https://game.example/Build/chaos-world.framework.js');
+
+        expect(onCrash).toHaveBeenCalledWith(expect.objectContaining({ reason: 'wasm-exception' }));
+    });
+
+    it('ignores the same message from another script', () => {
+        monitor.attach(null, undefined, UNITY_SCRIPTS);
+
+        dispatchError('Uncaught RuntimeError: unreachable', 'https://game.example/static/js/game-ui.js');
+
+        expect(onCrash).not.toHaveBeenCalled();
+    });
+
+    it('always reports Module.onAbort', () => {
+        const module: UnityModule = {};
+        monitor.attach(null, module, UNITY_SCRIPTS);
+
+        module.onAbort!('OOM');
+
+        expect(onCrash).toHaveBeenCalledWith(expect.objectContaining({ reason: 'abort' }));
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * FrameCoalescer unit tests
+ * Bursts are batched per frame, but events are never delivered out of the order Unity sent them
+ */
+
+import { FrameCoalescer } from '../../web-assets/src/js/bridge/frame-coalescer';
+
+describe('FrameCoalescer', () => {
+    let delivered: Array<[string, any]>;
+    let coalescer: FrameCoalescer;
+
+    beforeEach(() => {
+        delivered = [];
+        coalescer = new FrameCoalescer((event, payload) => delivered.push([event, payload]));
+    });
+
+    it('merges a burst of the same event into one delivery', () => {
+        coalescer.push('PlayerStatsUpdated', { health: 90 });
+        coalescer.push('PlayerStatsUpdated', { mana: 40 });
+        coalescer.flush();
+
+        expect(delivered).toEqual([['PlayerStatsUpdated', { health: 90, mana: 40 }]]);
+    });
+
+    it('keeps the order when another event arrives between two of the same type', () => {
+        coalescer.push('PlayerStatsUpdated', { health: 90 });
+        coalescer.push('InventoryUpdated', { items: [] });
+        coalescer.push('PlayerStatsUpdated', { health: 80 });
+        coalescer.flush();
+
+        expect(delivered).toEqual([
+            ['PlayerStatsUpdated', { health: 90 }],
+            ['InventoryUpdated', { items: [] }],
+            ['PlayerStatsUpdated', { health: 80 }]
+        ]);
+    });
+
+    it('delivers pending events before an event that is not coalesced', () => {
+        coalescer.push('GameStateChanged', { game: { isPaused: true } });
+        coalescer.push('CombatStarted', { enemy: 'wolf' });
+
+        expect(delivered.map(([event]) => event)).toEqual(['GameStateChanged', 'CombatStarted']);
+    });
+});
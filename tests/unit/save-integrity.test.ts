@@ -0,0 +1,97 @@
+/**
+ * Save integrity unit tests
+ * Synchronous HMAC-SHA256 signing, which saves are refused as tampered, and migrating saves from before signing
+ */
+
+import { createHmac } from 'crypto';
+import { hmacSha256 } from '../../web-assets/src/js/services/hmac-sha256';
+import { openSave, signSave, verifySave } from '../../web-assets/src/js/services/save-integrity';
+import { SAVE_FORMAT_VERSION, createSaveEnvelope } from '../../web-assets/src/js/services/save-format';
+import { createInitialGameState } from '../../web-assets/src/js/services/game-store';
+import { AUTO_SAVE_SLOT_ID, SaveSlotManager } from '../../web-assets/src/js/services/save-slots';
+import { apiService } from '../../web-assets/src/js/services/api-service';
+
+describe('hmacSha256', () => {
+    it.each([
+        ['Jefe', 'what do ya want for nothing?'],
+        ['chaos-world-save-integrity', ''],
+        ['chaos-world-save-integrity', 'x'.repeat(1000)],
+        ['k'.repeat(100), '境界 Qi Refining ✨']
+    ])('matches Node for key %s', (key, message) => {
+        expect(hmacSha256(key, message)).toBe(createHmac('sha256', key).update(message).digest('hex'));
+    });
+});
+
+describe('save integrity', () => {
+    const envelope = () => createSaveEnvelope(createInitialGameState(), 1000);
+
+    beforeEach(() => {
+        localStorage.clear();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(apiService, 'reportTelemetry').mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('accepts a save it signed', () => {
+        const signed = signSave(envelope());
+
+        expect(verifySave(signed)).toBe('valid');
+        expect(openSave(signed, 'test').state).toEqual(createInitialGameState());
+    });
+
+    it('refuses an edited save', () => {
+        const signed = signSave(envelope());
+        signed.state.player.level = 99;
+
+        expect(() => openSave(signed, 'test')).toThrow(expect.objectContaining({ code: 'TAMPERED' }));
+    });
+
+    it('refuses a current save with the signature stripped', () => {
+        expect(verifySave(envelope())).toBe('unsigned');
+        expect(() => openSave(envelope(), 'test')).toThrow(expect.objectContaining({ code: 'TAMPERED' }));
+    });
+
+    it.each([
+        ['a format 2 envelope', () => ({ ...envelope(), version: 2 })],
+        ['a bare game state', () => createInitialGameState()]
+    ])('migrates and signs %s from before signing', (_label, save) => {
+        const opened = openSave(save(), 'test');
+
+        expect(opened.version).toBe(SAVE_FORMAT_VERSION);
+        expect(opened.state).toEqual(createInitialGameState());
+        expect(verifySave(opened)).toBe('valid');
+    });
+
+    it('writes an unsigned slot from before signing back signed', () => {
+        const slots = new SaveSlotManager();
+        slots.saveAuto(createInitialGameState());
+        const key = `chaos-world-save-slot-${AUTO_SAVE_SLOT_ID}`;
+        const { signature: _signature, ...unsigned } = JSON.parse(localStorage.getItem(key)!);
+        localStorage.setItem(key, JSON.stringify({ ...unsigned, version: 2 }));
+
+        expect(slots.loadEnvelope(AUTO_SAVE_SLOT_ID)!.state).toEqual(createInitialGameState());
+        expect(verifySave(JSON.parse(localStorage.getItem(key)!))).toBe('valid');
+    });
+
+    it('writes slots synchronously', () => {
+        const slots = new SaveSlotManager();
+
+        slots.saveAuto(createInitialGameState());
+
+        expect(slots.loadEnvelope(AUTO_SAVE_SLOT_ID)!.state).toEqual(createInitialGameState());
+    });
+
+    it('imports the unsigned legacy save once and signs it', () => {
+        localStorage.setItem('chaos-world-save', JSON.stringify(createInitialGameState()));
+
+        const slots = new SaveSlotManager();
+
+        expect(localStorage.getItem('chaos-world-save')).toBeNull();
+        expect(verifySave(JSON.parse(localStorage.getItem(`chaos-world-save-slot-${AUTO_SAVE_SLOT_ID}`)!))).toBe('valid');
+        expect(slots.loadEnvelope(AUTO_SAVE_SLOT_ID)).not.toBeNull();
+    });
+});
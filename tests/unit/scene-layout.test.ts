@@ -0,0 +1,38 @@
+/**
+ * SceneLayout unit tests
+ * Panels follow the scene and combat flag Unity reports; combat-ui is left to CombatUI
+ */
+
+import { SceneLayout } from '../../web-assets/src/js/ui/scene-layout';
+import { GameStore, createInitialGameState } from '../../web-assets/src/js/services/game-store';
+
+describe('SceneLayout', () => {
+    let store: GameStore;
+
+    function setInCombat(isInCombat: boolean): void {
+        const state = store.getState();
+        store.dispatch({ type: 'unity/stateChanged', state: { ...state, game: { ...state.game, isInCombat } } }, 'unity');
+    }
+
+    beforeEach(() => {
+        document.body.innerHTML = '<div id="combat-ui"></div><div id="cultivation-panel"></div>';
+        store = new GameStore(createInitialGameState());
+        new SceneLayout(store);
+    });
+
+    it('switches to the combat layout when Unity reports combat', () => {
+        setInCombat(true);
+        expect(document.getElementById('cultivation-panel')!.classList.contains('scene-hidden')).toBe(true);
+
+        setInCombat(false);
+        expect(document.getElementById('cultivation-panel')!.classList.contains('scene-hidden')).toBe(false);
+    });
+
+    it('never hides combat-ui, so CombatStarted can show it before Unity reports combat', () => {
+        expect(document.getElementById('combat-ui')!.classList.contains('scene-hidden')).toBe(false);
+
+        setInCombat(true);
+        setInCombat(false);
+        expect(document.getElementById('combat-ui')!.classList.contains('scene-hidden')).toBe(false);
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * Bridge Recorder
+ * Records UnityBridge traffic into session files and replays them into the UI
+ */
+
+import { BridgeSession, BridgeTrafficEntry, UnityToHTMLInterface } from '../../types/unity-types';
+
+export const BRIDGE_SESSION_VERSION = 1;
+
+export class BridgeRecorder {
+    public isRecording: boolean = false;
+    private entries: BridgeTrafficEntry[] = [];
+    private startTime: number = 0;
+    private startedAt: Date | null = null;
+    private debugInfo: any = null;
+
+    start(debugInfo: any = null): void {
+        this.entries = [];
+        this.startTime = performance.now();
+        this.startedAt = new Date();
+        this.debugInfo = debugInfo;
+        this.isRecording = true;
+    }
+
+    stop(): BridgeSession {
+        this.isRecording = false;
+
+        return {
+            version: BRIDGE_SESSION_VERSION,
+            startedAt: (this.startedAt || new Date()).toISOString(),
+            duration: Math.round(performance.now() - this.startTime),
+            userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown',
+            debugInfo: this.debugInfo,
+            entries: [...this.entries]
+        };
+    }
+
+    recordInbound(callback: string, data: string): void {
+        this.record({ direction: 'inbound', time: this.elapsed(), name: callback, data });
+    }
+
+    recordOutbound(gameObject: string, method: string, data: string): void {
+        this.record({ direction: 'outbound', time: this.elapsed(), name: method, gameObject, data });
+    }
+
+    getEntryCount(): number {
+        return this.entries.length;
+    }
+
+    private record(entry: BridgeTrafficEntry): void {
+        if (!this.isRecording) return;
+        this.entries.push(entry);
+    }
+
+    private elapsed(): number {
+        return Math.round(performance.now() - this.startTime);
+    }
+
+    static download(session: BridgeSession): void {
+        const blob = new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+
+        link.href = url;
+        link.download = `chaos-world-bridge-${session.startedAt.replace(/[:.]/g, '-')}.json`;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        URL.revokeObjectURL(url);
+    }
+
+    static parse(json: string): BridgeSession {
+        const session = JSON.parse(json);
+
+        if (!session || !Array.isArray(session.entries)) {
+            throw new Error('Not a bridge session file');
+        }
+
+        if (session.version !== BRIDGE_SESSION_VERSION) {
+            throw new Error(`Unsupported bridge session version ${session.version}`);
+        }
+
+        return session as BridgeSession;
+    }
+}
+
+export class BridgeReplayer {
+    public isReplaying: boolean = false;
+    private timers: ReturnType<typeof setTimeout>[] = [];
+    private finish: (() => void) | null = null;
+
+    // Feeds the inbound entries of a session back through UnityToHTML; speed > 1 plays faster
+    play(session: BridgeSession, speed: number = 1, onEntry?: (entry: BridgeTrafficEntry, index: number) => void): Promise<void> {
+        this.stop();
+
+        const inbound = session.entries.filter(entry => entry.direction === 'inbound');
+        const rate = speed > 0 ? speed : 1;
+        this.isReplaying = true;
+
+        return new Promise<void>(resolve => {
+            this.finish = () => {
+                this.isReplaying = false;
+                this.finish = null;
+                resolve();
+            };
+
+            if (inbound.length === 0) {
+                this.finish();
+                return;
+            }
+
+            inbound.forEach((entry, index) => {
+                this.timers.push(setTimeout(() => {
+                    this.deliver(entry);
+                    if (onEntry) {
+                        onEntry(entry, index);
+                    }
+                    if (index === inbound.length - 1 && this.finish) {
+                        this.finish();
+                    }
+                }, entry.time / rate));
+            });
+        });
+    }
+
+    stop(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers = [];
+
+        if (this.finish) {
+            this.finish();
+        }
+    }
+
+    private deliver(entry: BridgeTrafficEntry): void {
+        const handler = window.UnityToHTML && window.UnityToHTML[entry.name as keyof UnityToHTMLInterface];
+
+        if (!handler) {
+            console.warn('Replay skipped unknown UnityToHTML callback:', entry.name);
+            return;
+        }
+
+        handler(entry.data);
+    }
+}
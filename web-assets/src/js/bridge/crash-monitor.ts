@@ -0,0 +1,92 @@
+/**
+ * Unity Crash Monitor
+ * Detects fatal Unity runtime failures: aborts, WebGL context loss and wasm exceptions
+ */
+
+import { UnityCrashReason, UnityCrashReport, UnityModule } from '../../types/unity-types';
+
+// Emscripten aborts ("Aborted(OOM)", "abort(...)" in older builds) and wasm traps, after which the module can no longer run
+const FATAL_ERROR_PATTERN = /(?:^|[\s:])(?:Aborted|abort)\(|RuntimeError: (?:unreachable|memory access out of bounds|index out of bounds|divide by zero|integer overflow|float unrepresentable|table index is out of bounds|null function|indirect call)/;
+
+export function isFatalUnityError(message: string): boolean {
+    return FATAL_ERROR_PATTERN.test(message);
+}
+
+export class UnityCrashMonitor {
+    private onCrash: (report: UnityCrashReport) => void;
+    private canvas: HTMLCanvasElement | null = null;
+    // File names of the Unity loader, framework and wasm; page errors only count when they come from these
+    private unityScripts: string[] = [];
+    private crashed: boolean = false;
+
+    constructor(onCrash: (report: UnityCrashReport) => void) {
+        this.onCrash = onCrash;
+    }
+
+    attach(canvas: HTMLCanvasElement | null, module?: UnityModule, unityScripts: string[] = []): void {
+        this.detach();
+        this.crashed = false;
+
+        this.canvas = canvas;
+        this.unityScripts = unityScripts.filter(script => !!script);
+        this.canvas?.addEventListener('webglcontextlost', this.handleContextLost);
+        window.addEventListener('error', this.handleWindowError);
+        window.addEventListener('unhandledrejection', this.handleRejection);
+
+        if (module) {
+            const previous = module.onAbort;
+            module.onAbort = (what: any) => {
+                previous?.(what);
+                this.report('abort', `Unity runtime aborted: ${what}`);
+            };
+        }
+    }
+
+    detach(): void {
+        this.canvas?.removeEventListener('webglcontextlost', this.handleContextLost);
+        this.canvas = null;
+        window.removeEventListener('error', this.handleWindowError);
+        window.removeEventListener('unhandledrejection', this.handleRejection);
+    }
+
+    // Unity's own onError callback also carries aborts, but most of its errors are recoverable
+    checkUnityError(message: string): boolean {
+        if (!isFatalUnityError(message)) return false;
+
+        this.report('abort', message);
+        return true;
+    }
+
+    report(reason: UnityCrashReason, message: string): void {
+        // Several signals usually fire for one crash; only the first counts
+        if (this.crashed) return;
+
+        this.crashed = true;
+        this.onCrash({ reason, message, timestamp: Date.now() });
+    }
+
+    private handleContextLost = (event: Event): void => {
+        // Stop the browser from discarding the context for good
+        event.preventDefault();
+        this.report('context-lost', 'The WebGL context was lost');
+    };
+
+    // Aborts and traps raised by the UI's own code or other scripts are not Unity crashes
+    private isFromUnity(...sources: Array<string | undefined>): boolean {
+        return sources.some(source => !!source && this.unityScripts.some(script => source.includes(script)));
+    }
+
+    private handleWindowError = (event: ErrorEvent): void => {
+        const message = event.message || (event.error && String(event.error)) || '';
+        if (isFatalUnityError(message) && this.isFromUnity(event.filename, event.error?.stack)) {
+            this.report('wasm-exception', message);
+        }
+    };
+
+    private handleRejection = (event: PromiseRejectionEvent): void => {
+        const message = event.reason instanceof Error ? `${event.reason.name}: ${event.reason.message}` : String(event.reason);
+        if (isFatalUnityError(message) && this.isFromUnity(event.reason?.stack)) {
+            this.report('wasm-exception', message);
+        }
+    };
+}
@@ -0,0 +1,92 @@
+/**
+ * Frame Coalescer
+ * Batches bursts of high-frequency Unity events into one delivery per animation frame,
+ * without changing the order Unity sent them in
+ */
+
+interface CoalesceRule {
+    // merge folds partial payloads together, latest keeps only the newest one
+    strategy: 'merge' | 'latest';
+    // Payloads that must be delivered on their own
+    bypass?: (payload: any) => boolean;
+}
+
+export const FRAME_COALESCED_EVENTS: Record<string, CoalesceRule> = {
+    PlayerStatsUpdated: { strategy: 'merge' },
+    CultivationProgress: { strategy: 'latest', bypass: payload => !!payload.breakthrough },
+    InventoryUpdated: { strategy: 'latest' },
+    GameStateChanged: { strategy: 'latest' }
+};
+
+// requestAnimationFrame stalls in background tabs, so a timer guarantees delivery
+const FALLBACK_DELAY = 100;
+
+export class FrameCoalescer {
+    private pending: Map<string, any> = new Map();
+    private frameHandle: number | null = null;
+    private fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+    private deliver: (event: string, payload: any) => void;
+
+    constructor(deliver: (event: string, payload: any) => void) {
+        this.deliver = deliver;
+    }
+
+    push(event: string, payload: any): void {
+        const rule = FRAME_COALESCED_EVENTS[event];
+
+        if (!rule || (rule.bypass && rule.bypass(payload))) {
+            // Flush first so listeners still see events in the order Unity sent them
+            this.flush();
+            this.deliver(event, payload);
+            return;
+        }
+
+        // Folding this payload into an older one would deliver it ahead of the events Unity sent in between
+        if (this.pending.has(event) && this.lastPendingEvent() !== event) {
+            this.flush();
+        }
+
+        const previous = this.pending.get(event);
+        this.pending.set(event, previous !== undefined && rule.strategy === 'merge'
+            ? { ...previous, ...payload }
+            : payload);
+        this.schedule();
+    }
+
+    flush(): void {
+        this.cancel();
+
+        const batch = Array.from(this.pending.entries());
+        this.pending.clear();
+        batch.forEach(([event, payload]) => this.deliver(event, payload));
+    }
+
+    getPendingCount(): number {
+        return this.pending.size;
+    }
+
+    // Maps keep insertion order, so this is the type that arrived most recently
+    private lastPendingEvent(): string | undefined {
+        return Array.from(this.pending.keys()).pop();
+    }
+
+    private schedule(): void {
+        if (this.frameHandle !== null || this.fallbackTimer !== null) return;
+
+        if (typeof requestAnimationFrame === 'function') {
+            this.frameHandle = requestAnimationFrame(() => this.flush());
+        }
+        this.fallbackTimer = setTimeout(() => this.flush(), FALLBACK_DELAY);
+    }
+
+    private cancel(): void {
+        if (this.frameHandle !== null) {
+            cancelAnimationFrame(this.frameHandle);
+            this.frameHandle = null;
+        }
+        if (this.fallbackTimer !== null) {
+            clearTimeout(this.fallbackTimer);
+            this.fallbackTimer = null;
+        }
+    }
+}
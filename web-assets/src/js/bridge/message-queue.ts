@@ -0,0 +1,254 @@
+/**
+ * Unity Outbound Queue
+ * Holds messages for Unity until the runtime is ready
+ */
+
+import { UnityMethod, UnityMessageQueue, UnityMessagePriority } from '../../types/unity-types';
+
+interface MessagePolicy {
+    priority?: UnityMessagePriority;
+    // replace keeps only the newest message; merge folds JSON payloads into it
+    coalesce?: 'replace' | 'merge';
+    // Messages in the same group coalesce with each other (defaults to the method)
+    group?: string;
+    // Survives page reloads when critical message persistence is enabled
+    persist?: boolean;
+}
+
+export const MESSAGE_POLICIES: Partial<Record<UnityMethod, MessagePolicy>> = {
+    SaveGame: { priority: 'critical', coalesce: 'replace', persist: true },
+    UserLogin: { priority: 'high', coalesce: 'replace', group: 'session' },
+    UserLogout: { priority: 'high', coalesce: 'replace', group: 'session' },
+    UIReady: { priority: 'high', coalesce: 'replace' },
+    UpdatePlayerStats: { coalesce: 'merge' },
+    StartCultivation: { coalesce: 'replace', group: 'cultivation' },
+    StopCultivation: { coalesce: 'replace', group: 'cultivation' },
+    TravelToLocation: { coalesce: 'replace' },
+    LoadGame: { coalesce: 'replace' },
+    SetQualitySettings: { coalesce: 'replace' },
+    ApplyDeviceProfile: { priority: 'high', coalesce: 'replace' },
+    // Only the latest focus change matters
+    PauseGame: { priority: 'high', coalesce: 'replace', group: 'focus' },
+    ResumeGame: { priority: 'high', coalesce: 'replace', group: 'focus' }
+};
+
+const PRIORITY_ORDER: Record<UnityMessagePriority, number> = {
+    critical: 0,
+    high: 1,
+    normal: 2,
+    low: 3
+};
+
+const STORAGE_KEY = 'chaos-world-unity-queue';
+
+export type QueueDropReason = 'coalesced' | 'overflow';
+
+export interface OutboundQueueOptions {
+    maxSize: number;
+    persistCritical: boolean;
+    // Fraction of maxSize at which a backpressure warning is raised
+    warningThreshold?: number;
+    onDrop?: (dropped: UnityMessageQueue, reason: QueueDropReason, replacement?: UnityMessageQueue) => void;
+    onBackpressure?: (size: number, maxSize: number) => void;
+}
+
+export interface OutboundMessage {
+    method: string;
+    data: string;
+    gameObject?: string;
+    requestId?: string;
+    priority?: UnityMessagePriority;
+}
+
+export class UnityOutboundQueue {
+    private entries: UnityMessageQueue[] = [];
+    private options: OutboundQueueOptions;
+    private isUnderPressure: boolean = false;
+    // Persisted requests from before a reload, waiting for the bridge to issue them again
+    private restored: UnityMessageQueue[] = [];
+
+    constructor(options: OutboundQueueOptions) {
+        this.options = { warningThreshold: 0.8, ...options };
+
+        if (this.options.persistCritical) {
+            this.restore();
+        }
+    }
+
+    enqueue(message: OutboundMessage): void {
+        const method = message.method as UnityMethod;
+        const policy = MESSAGE_POLICIES[method] || {};
+        const entry: UnityMessageQueue = {
+            method,
+            data: message.data,
+            timestamp: Date.now(),
+            retries: 0,
+            priority: message.priority || policy.priority || 'normal',
+            gameObject: message.gameObject,
+            requestId: message.requestId
+        };
+
+        if (policy.coalesce) {
+            this.coalesce(entry, policy);
+        }
+
+        this.insert(entry);
+        this.enforceLimit();
+        this.persist();
+        this.checkBackpressure();
+    }
+
+    // Puts a message back after a failed send, keeping its retry count
+    requeue(entry: UnityMessageQueue): void {
+        entry.retries++;
+        this.insert(entry);
+        this.persist();
+    }
+
+    // Hands over the requests restored from the last page; plain messages are already queued again
+    takeRestored(): UnityMessageQueue[] {
+        const restored = this.restored;
+        this.restored = [];
+        return restored;
+    }
+
+    dequeue(): UnityMessageQueue | undefined {
+        const entry = this.entries.shift();
+        if (entry) {
+            this.persist();
+            this.checkBackpressure();
+        }
+        return entry;
+    }
+
+    size(): number {
+        return this.entries.length;
+    }
+
+    isEmpty(): boolean {
+        return this.entries.length === 0;
+    }
+
+    getStats(): Record<UnityMessagePriority, number> {
+        const stats: Record<UnityMessagePriority, number> = { critical: 0, high: 0, normal: 0, low: 0 };
+        this.entries.forEach(entry => {
+            stats[entry.priority]++;
+        });
+        return stats;
+    }
+
+    private coalesce(entry: UnityMessageQueue, policy: MessagePolicy): void {
+        const group = policy.group || entry.method;
+        const matches = this.entries.filter(existing => {
+            const existingPolicy = MESSAGE_POLICIES[existing.method] || {};
+            return (existingPolicy.group || existing.method) === group && existing.gameObject === entry.gameObject;
+        });
+
+        matches.forEach(existing => {
+            // Requests carry an envelope per call, so only plain messages are merged
+            if (policy.coalesce === 'merge' && existing.method === entry.method && !existing.requestId && !entry.requestId) {
+                entry.data = this.mergeData(existing.data, entry.data);
+            }
+
+            if (PRIORITY_ORDER[existing.priority] < PRIORITY_ORDER[entry.priority]) {
+                entry.priority = existing.priority;
+            }
+
+            this.remove(existing);
+            this.options.onDrop?.(existing, 'coalesced', entry);
+        });
+    }
+
+    private mergeData(older: string, newer: string): string {
+        try {
+            const previous = older ? JSON.parse(older) : {};
+            const next = newer ? JSON.parse(newer) : {};
+            if (typeof previous === 'object' && typeof next === 'object' && previous && next) {
+                return JSON.stringify({ ...previous, ...next });
+            }
+        } catch (error) {
+            // Not JSON; the newest payload wins
+        }
+        return newer;
+    }
+
+    private insert(entry: UnityMessageQueue): void {
+        const index = this.entries.findIndex(existing => PRIORITY_ORDER[existing.priority] > PRIORITY_ORDER[entry.priority]);
+        if (index === -1) {
+            this.entries.push(entry);
+        } else {
+            this.entries.splice(index, 0, entry);
+        }
+    }
+
+    private remove(entry: UnityMessageQueue): void {
+        const index = this.entries.indexOf(entry);
+        if (index > -1) {
+            this.entries.splice(index, 1);
+        }
+    }
+
+    // Drops the newest lowest-priority message; critical messages go oldest-first only when nothing else is left
+    private enforceLimit(): void {
+        while (this.entries.length > this.options.maxSize) {
+            const last = this.entries[this.entries.length - 1];
+            const victim = last.priority === 'critical' ? this.entries[0] : last;
+
+            this.remove(victim);
+            console.warn(`Unity message queue full, dropped ${victim.method}`);
+            this.options.onDrop?.(victim, 'overflow');
+        }
+    }
+
+    private checkBackpressure(): void {
+        const threshold = Math.floor(this.options.maxSize * (this.options.warningThreshold || 0.8));
+        const underPressure = this.entries.length >= threshold;
+
+        if (underPressure && !this.isUnderPressure) {
+            console.warn(`Unity message queue at ${this.entries.length}/${this.options.maxSize}`);
+            this.options.onBackpressure?.(this.entries.length, this.options.maxSize);
+        }
+
+        this.isUnderPressure = underPressure;
+    }
+
+    private isPersistent(entry: UnityMessageQueue): boolean {
+        return !!(MESSAGE_POLICIES[entry.method] || {}).persist;
+    }
+
+    private persist(): void {
+        if (!this.options.persistCritical) return;
+
+        try {
+            const critical = this.entries.filter(entry => this.isPersistent(entry));
+            if (critical.length > 0) {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(critical));
+            } else {
+                localStorage.removeItem(STORAGE_KEY);
+            }
+        } catch (error) {
+            console.warn('Failed to persist Unity message queue:', error);
+        }
+    }
+
+    private restore(): void {
+        try {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (!saved) return;
+
+            const restored: UnityMessageQueue[] = JSON.parse(saved);
+            restored.forEach(entry => {
+                // The promise and pending entry behind a request did not survive the reload,
+                // so requests go back to the bridge to be sent with a fresh envelope
+                if (entry.requestId) {
+                    this.restored.push(entry);
+                } else {
+                    this.insert(entry);
+                }
+            });
+            console.log(`Restored ${restored.length} queued Unity messages`);
+        } catch (error) {
+            console.warn('Failed to restore Unity message queue:', error);
+        }
+    }
+}
@@ -0,0 +1,189 @@
+/**
+ * Mock Unity Runtime
+ * Headless stand-in for a Unity WebGL instance, driven by scenario files
+ */
+
+import { UnityInstance, UnityModule, UnityToHTMLInterface, UnityRequest, UnityError } from '../../types/unity-types';
+import idleScenario from './scenarios/idle.json';
+import combatEncounterScenario from './scenarios/combat-encounter.json';
+import inventoryChangesScenario from './scenarios/inventory-changes.json';
+import breakthroughScenario from './scenarios/breakthrough.json';
+import lowEndPerformanceScenario from './scenarios/low-end-performance.json';
+import staleBuildScenario from './scenarios/stale-build.json';
+import runtimeCrashScenario from './scenarios/runtime-crash.json';
+import { createHandshake } from './protocol';
+
+export type MockCallback = keyof UnityToHTMLInterface;
+
+export interface MockScenarioStep {
+    // Delay in milliseconds after the previous step
+    after: number;
+    callback: MockCallback;
+    data: any;
+}
+
+export interface MockResponse {
+    success: boolean;
+    result?: any;
+    error?: UnityError;
+    // Delay in milliseconds before Unity "answers"
+    delay?: number;
+}
+
+export interface MockScenario {
+    name: string;
+    description?: string;
+    // Played once when the runtime starts
+    steps: MockScenarioStep[];
+    // Played whenever the UI sends the given method
+    reactions?: Record<string, MockScenarioStep[]>;
+    // Answers for invoke() requests, keyed by method
+    responses?: Record<string, MockResponse>;
+}
+
+export interface MockReceivedMessage {
+    gameObject: string;
+    method: string;
+    value: string;
+    timestamp: number;
+}
+
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+    idle: idleScenario as MockScenario,
+    'combat-encounter': combatEncounterScenario as MockScenario,
+    'inventory-changes': inventoryChangesScenario as MockScenario,
+    breakthrough: breakthroughScenario as MockScenario,
+    'low-end-performance': lowEndPerformanceScenario as MockScenario,
+    'stale-build': staleBuildScenario as MockScenario,
+    'runtime-crash': runtimeCrashScenario as MockScenario
+};
+
+export class MockUnityInstance implements UnityInstance {
+    public Module: UnityModule = {};
+    private scenario: MockScenario;
+    private receivedMessages: MockReceivedMessage[] = [];
+    private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+    private isRunning: boolean = false;
+
+    constructor(scenario: MockScenario | string = 'idle') {
+        this.scenario = typeof scenario === 'string' ? MockUnityInstance.getScenario(scenario) : scenario;
+    }
+
+    static getScenario(name: string): MockScenario {
+        const scenario = MOCK_SCENARIOS[name];
+        if (!scenario) {
+            console.warn(`Unknown mock scenario "${name}", falling back to "idle"`);
+            return MOCK_SCENARIOS.idle;
+        }
+        return scenario;
+    }
+
+    start(): void {
+        if (this.isRunning) return;
+
+        this.isRunning = true;
+        console.log(`🧪 Mock Unity runtime started with scenario "${this.scenario.name}"`);
+
+        if (this.Module.onRuntimeInitialized) {
+            this.Module.onRuntimeInitialized();
+        }
+
+        this.play(this.scenario.steps);
+    }
+
+    stop(): void {
+        this.isRunning = false;
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    Quit(): Promise<void> {
+        this.stop();
+        return Promise.resolve();
+    }
+
+    SendMessage(gameObject: string, method: string, value: string): void {
+        this.receivedMessages.push({ gameObject, method, value, timestamp: Date.now() });
+
+        const request = this.parseRequest(value);
+        if (request) {
+            this.respond(method, request.requestId);
+        }
+
+        const reaction = this.scenario.reactions?.[method];
+        if (reaction) {
+            this.play(reaction);
+        }
+    }
+
+    // Fire a UnityToHTML callback directly, bypassing the scenario
+    trigger(callback: MockCallback, data: any): void {
+        const handler = window.UnityToHTML && window.UnityToHTML[callback];
+        if (!handler) {
+            console.warn(`Mock Unity runtime: UnityToHTML.${callback} is not registered`);
+            return;
+        }
+
+        // onError receives a raw message, every other callback a JSON string
+        const value = callback === 'onError' || typeof data === 'string' ? String(data) : JSON.stringify(data);
+        handler(value);
+    }
+
+    getReceivedMessages(): MockReceivedMessage[] {
+        return [...this.receivedMessages];
+    }
+
+    getScenarioName(): string {
+        return this.scenario.name;
+    }
+
+    private play(steps: MockScenarioStep[]): void {
+        let elapsed = 0;
+        steps.forEach(step => {
+            elapsed += step.after;
+            this.schedule(() => this.trigger(step.callback, step.data), elapsed);
+        });
+    }
+
+    private respond(method: string, requestId: string): void {
+        const response: MockResponse = this.scenario.responses?.[method] || this.defaultResponse(method);
+
+        this.schedule(() => {
+            this.trigger('onResponse', {
+                requestId,
+                success: response.success,
+                result: response.result,
+                error: response.error
+            });
+        }, response.delay || 0);
+    }
+
+    // Without a scripted answer the mock behaves like an up-to-date build
+    private defaultResponse(method: string): MockResponse {
+        if (method === 'UIReady') {
+            return { success: true, result: createHandshake() };
+        }
+        return { success: true, result: null };
+    }
+
+    private parseRequest(value: string): UnityRequest | null {
+        if (!value || value.charAt(0) !== '{') return null;
+
+        try {
+            const parsed = JSON.parse(value);
+            return parsed && typeof parsed.requestId === 'string' ? parsed : null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    private schedule(callback: () => void, delay: number): void {
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            if (this.isRunning) {
+                callback();
+            }
+        }, delay);
+        this.timers.add(timer);
+    }
+}
@@ -0,0 +1,263 @@
+/**
+ * Unity Payload Schemas
+ * Runtime shape checks for data arriving through UnityToHTML
+ */
+
+import { UnityMethod } from '../../types/unity-types';
+
+export type PayloadSchema =
+    | { kind: 'string' | 'number' | 'boolean' | 'any'; optional?: boolean; values?: readonly unknown[] }
+    | { kind: 'object'; optional?: boolean; fields: Record<string, PayloadSchema> }
+    | { kind: 'array'; optional?: boolean; items: PayloadSchema }
+    | { kind: 'record'; optional?: boolean; values: PayloadSchema };
+
+export interface PayloadIssue {
+    path: string;
+    expected: string;
+    received: string;
+}
+
+// Schema builders
+const str = (): PayloadSchema => ({ kind: 'string' });
+const num = (): PayloadSchema => ({ kind: 'number' });
+const bool = (): PayloadSchema => ({ kind: 'boolean' });
+const any = (): PayloadSchema => ({ kind: 'any' });
+const oneOf = (values: readonly string[]): PayloadSchema => ({ kind: 'string', values });
+const obj = (fields: Record<string, PayloadSchema>): PayloadSchema => ({ kind: 'object', fields });
+const arr = (items: PayloadSchema): PayloadSchema => ({ kind: 'array', items });
+const record = (values: PayloadSchema): PayloadSchema => ({ kind: 'record', values });
+const optional = (schema: PayloadSchema): PayloadSchema => ({ ...schema, optional: true });
+const partial = (schema: PayloadSchema): PayloadSchema => {
+    if (schema.kind !== 'object') return schema;
+    const fields: Record<string, PayloadSchema> = {};
+    Object.keys(schema.fields).forEach(key => {
+        fields[key] = optional(schema.fields[key]);
+    });
+    return { ...schema, fields };
+};
+
+const playerStatsFields: Record<string, PayloadSchema> = {
+    level: num(),
+    health: num(),
+    maxHealth: num(),
+    mana: num(),
+    maxMana: num(),
+    experience: num(),
+    cultivationLevel: num(),
+    cultivationProgress: num()
+};
+
+const playerStatsSchema = obj(playerStatsFields);
+
+const cultivationSchema = obj({
+    progress: num(),
+    breakthrough: bool(),
+    realm: str(),
+    level: num()
+});
+
+const combatSchema = obj({
+    player: playerStatsSchema,
+    enemy: obj({
+        id: str(),
+        name: str(),
+        health: num(),
+        maxHealth: num(),
+        level: num(),
+        type: str()
+    }),
+    status: oneOf(['fighting', 'player-turn', 'enemy-turn', 'victory', 'defeat', 'fled']),
+    techniques: optional(arr(obj({
+        id: str(),
+        name: str(),
+        description: str(),
+        manaCost: num(),
+        damage: num(),
+        cooldown: num(),
+        type: oneOf(['offensive', 'defensive', 'support'])
+    }))),
+    items: optional(arr(obj({
+        id: str(),
+        name: str(),
+        description: str(),
+        type: oneOf(['potion', 'scroll', 'consumable']),
+        effect: str(),
+        quantity: num()
+    })))
+});
+
+const combatResultSchema = obj({
+    victory: bool(),
+    rewards: optional(obj({
+        experience: num(),
+        items: optional(arr(str()))
+    }))
+});
+
+const inventorySchema = obj({
+    items: arr(obj({
+        id: str(),
+        name: str(),
+        description: optional(str()),
+        type: str(),
+        rarity: str(),
+        quantity: num(),
+        weight: num(),
+        stackable: bool(),
+        stats: optional(record(num())),
+        icon: optional(str())
+    })),
+    maxSlots: num(),
+    totalWeight: num(),
+    maxWeight: num()
+});
+
+const gameStateSchema = obj({
+    player: playerStatsSchema,
+    game: obj({
+        isPaused: bool(),
+        isInCombat: bool(),
+        currentScene: str()
+    }),
+    inventory: optional(inventorySchema)
+});
+
+const performanceSchema = obj({
+    fps: num(),
+    memory: num(),
+    drawCalls: num(),
+    triangles: num(),
+    vertices: num()
+});
+
+const handshakeSchema = obj({
+    protocolVersion: str(),
+    methods: arr(str()),
+    events: arr(str()),
+    buildVersion: optional(str())
+});
+
+const responseSchema = obj({
+    requestId: str(),
+    success: bool(),
+    result: optional(any()),
+    error: optional(obj({
+        code: str(),
+        message: str(),
+        stack: optional(str())
+    }))
+});
+
+// Schemas keyed by the bridge event each payload is emitted as
+export const UNITY_PAYLOAD_SCHEMAS: Record<string, PayloadSchema> = {
+    // Unity may send only the stats that changed
+    PlayerStatsUpdated: partial(playerStatsSchema),
+    CultivationProgress: cultivationSchema,
+    CombatStarted: combatSchema,
+    CombatEnded: combatResultSchema,
+    InventoryUpdated: inventorySchema,
+    GameStateChanged: gameStateSchema,
+    PerformanceSample: performanceSchema,
+    Response: responseSchema
+};
+
+// Current save format; older saves are migrated before they are checked against it
+export const SAVE_STATE_SCHEMA: PayloadSchema = obj({
+    player: obj({
+        ...playerStatsFields,
+        currentRealm: str(),
+        realmLevel: num()
+    }),
+    game: obj({
+        isPaused: bool(),
+        isInCombat: bool(),
+        currentScene: str()
+    }),
+    inventory: optional(inventorySchema)
+});
+
+// Methods that answer with nothing; Unity may still send null or an empty object
+const noResult = (): PayloadSchema => optional(any());
+
+// Shapes of invoke() results, checked before the request resolves
+export const UNITY_RESULT_SCHEMAS: Record<UnityMethod, PayloadSchema> = {
+    UpdatePlayerStats: noResult(),
+    StartCultivation: noResult(),
+    StopCultivation: noResult(),
+    UseItem: noResult(),
+    EquipItem: noResult(),
+    StartCombat: optional(combatSchema),
+    UseCombatTechnique: optional(combatSchema),
+    TravelToLocation: noResult(),
+    SaveGame: noResult(),
+    LoadGame: optional(gameStateSchema),
+    RealmBreakthrough: noResult(),
+    Defend: optional(combatSchema),
+    DropItem: noResult(),
+    UIReady: handshakeSchema,
+    UserLogin: noResult(),
+    UserLogout: noResult(),
+    SetQualitySettings: noResult(),
+    ApplyDeviceProfile: noResult(),
+    PauseGame: noResult(),
+    ResumeGame: noResult()
+};
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && isNaN(value)) return 'NaN';
+    return typeof value;
+}
+
+export function validatePayload(value: unknown, schema: PayloadSchema, path: string = '$'): PayloadIssue | null {
+    if (value === undefined || value === null) {
+        return schema.optional ? null : { path, expected: schema.kind, received: describe(value) };
+    }
+
+    switch (schema.kind) {
+        case 'any':
+            return null;
+        case 'string':
+        case 'boolean':
+        case 'number': {
+            const actual = describe(value);
+            if (actual !== schema.kind) {
+                return { path, expected: schema.kind, received: actual };
+            }
+            if (schema.values && !schema.values.includes(value)) {
+                return { path, expected: schema.values.join(' | '), received: JSON.stringify(value) };
+            }
+            return null;
+        }
+        case 'array': {
+            if (!Array.isArray(value)) {
+                return { path, expected: 'array', received: describe(value) };
+            }
+            for (let i = 0; i < value.length; i++) {
+                const issue = validatePayload(value[i], schema.items, `${path}[${i}]`);
+                if (issue) return issue;
+            }
+            return null;
+        }
+        case 'object':
+        case 'record': {
+            if (describe(value) !== 'object') {
+                return { path, expected: 'object', received: describe(value) };
+            }
+            const entries = value as Record<string, unknown>;
+            if (schema.kind === 'record') {
+                for (const key of Object.keys(entries)) {
+                    const issue = validatePayload(entries[key], schema.values, `${path}.${key}`);
+                    if (issue) return issue;
+                }
+                return null;
+            }
+            for (const key of Object.keys(schema.fields)) {
+                const issue = validatePayload(entries[key], schema.fields[key], `${path}.${key}`);
+                if (issue) return issue;
+            }
+            return null;
+        }
+    }
+}
@@ -0,0 +1,96 @@
+/**
+ * Bridge Protocol
+ * Version and capability negotiation between the HTML UI and Unity
+ */
+
+import { UnityHandshake, UnityMethod, UnityProtocolStatus } from '../../types/unity-types';
+import { DEFAULT_METHOD_ROUTES } from './unity-routes';
+import { UNITY_PAYLOAD_SCHEMAS } from './payload-schemas';
+
+// Bump the major version for breaking message changes, the minor one for additions
+export const BRIDGE_PROTOCOL_VERSION = '1.0';
+
+export const SUPPORTED_METHODS = Object.keys(DEFAULT_METHOD_ROUTES) as UnityMethod[];
+
+export const SUPPORTED_EVENTS: string[] = [
+    ...Object.keys(UNITY_PAYLOAD_SCHEMAS).filter(event => event !== 'Response'),
+    'Error'
+];
+
+// What builds from before the handshake understand; assumed when Unity does not answer UIReady
+export const BASELINE_METHODS: UnityMethod[] = [
+    'UpdatePlayerStats', 'StartCultivation', 'StopCultivation', 'UseItem', 'EquipItem', 'StartCombat',
+    'UseCombatTechnique', 'TravelToLocation', 'SaveGame', 'LoadGame', 'RealmBreakthrough', 'Defend', 'DropItem', 'UIReady'
+];
+
+export const BASELINE_EVENTS: string[] = [
+    'PlayerStatsUpdated', 'CultivationProgress', 'CombatStarted', 'CombatEnded', 'InventoryUpdated', 'GameStateChanged', 'Error'
+];
+
+// Methods and events a UI feature cannot work without, and the controls to disable when they are missing
+export const FEATURE_REQUIREMENTS: Record<string, { methods: UnityMethod[]; events: string[]; elements: string[] }> = {
+    cultivation: { methods: ['StartCultivation', 'StopCultivation'], events: ['CultivationProgress'], elements: ['cultivate-btn'] },
+    inventory: { methods: ['UseItem', 'EquipItem', 'DropItem'], events: ['InventoryUpdated'], elements: ['inventory-btn'] },
+    combat: {
+        methods: ['UseCombatTechnique', 'Defend'],
+        events: ['CombatStarted', 'CombatEnded'],
+        elements: ['attack-btn', 'defend-btn', 'technique-btn', 'item-btn']
+    },
+    travel: { methods: ['TravelToLocation'], events: [], elements: [] },
+    saving: { methods: ['SaveGame', 'LoadGame'], events: [], elements: [] },
+    graphics: { methods: ['SetQualitySettings'], events: [], elements: [] },
+    pausing: { methods: ['PauseGame', 'ResumeGame'], events: [], elements: [] }
+};
+
+export function createHandshake(): UnityHandshake {
+    return {
+        protocolVersion: BRIDGE_PROTOCOL_VERSION,
+        methods: [...SUPPORTED_METHODS],
+        events: [...SUPPORTED_EVENTS]
+    };
+}
+
+function majorVersion(version: string): number {
+    return parseInt(String(version).split('.')[0], 10);
+}
+
+export function negotiateProtocol(remote: UnityHandshake | null, failure?: string): UnityProtocolStatus {
+    // A slow start or a build from before the handshake; only what every build understands stays enabled
+    if (!remote) {
+        return {
+            compatible: true,
+            localVersion: BRIDGE_PROTOCOL_VERSION,
+            remote: null,
+            unsupportedMethods: SUPPORTED_METHODS.filter(method => !BASELINE_METHODS.includes(method)),
+            unsupportedEvents: SUPPORTED_EVENTS.filter(event => !BASELINE_EVENTS.includes(event)),
+            message: `The game engine did not answer the version check (${failure || 'no response'}), so only basic features are enabled.`
+        };
+    }
+
+    if (majorVersion(remote.protocolVersion) !== majorVersion(BRIDGE_PROTOCOL_VERSION)) {
+        return {
+            compatible: false,
+            localVersion: BRIDGE_PROTOCOL_VERSION,
+            remote,
+            unsupportedMethods: [...SUPPORTED_METHODS],
+            unsupportedEvents: [...SUPPORTED_EVENTS],
+            message: `The game engine speaks protocol ${remote.protocolVersion}, but this interface needs ${BRIDGE_PROTOCOL_VERSION}. Please reload to get the latest version.`
+        };
+    }
+
+    return {
+        compatible: true,
+        localVersion: BRIDGE_PROTOCOL_VERSION,
+        remote,
+        unsupportedMethods: SUPPORTED_METHODS.filter(method => method !== 'UIReady' && !remote.methods.includes(method)),
+        unsupportedEvents: SUPPORTED_EVENTS.filter(event => !remote.events.includes(event))
+    };
+}
+
+export function getDisabledFeatures(status: UnityProtocolStatus): string[] {
+    return Object.keys(FEATURE_REQUIREMENTS).filter(feature => {
+        const { methods, events } = FEATURE_REQUIREMENTS[feature];
+        return methods.some(method => status.unsupportedMethods.includes(method))
+            || events.some(event => status.unsupportedEvents.includes(event));
+    });
+}
@@ -0,0 +1,35 @@
+/**
+ * Unity Bridge Error
+ * Typed error used to reject bridge requests
+ */
+
+import { UnityError, UnityErrorCode } from '../../types/unity-types';
+
+export class UnityBridgeError extends Error implements UnityError {
+    public code: UnityErrorCode | string;
+
+    constructor(code: UnityErrorCode | string, message: string, stack?: string) {
+        super(message);
+        this.name = 'UnityBridgeError';
+        this.code = code;
+
+        if (stack) {
+            this.stack = stack;
+        }
+    }
+
+    static fromUnityError(error: UnityError | undefined): UnityBridgeError {
+        if (!error) {
+            return new UnityBridgeError('UNITY_ERROR', 'Unity reported an unknown error');
+        }
+        return new UnityBridgeError(error.code || 'UNITY_ERROR', error.message, error.stack);
+    }
+
+    toJSON(): UnityError {
+        return {
+            code: this.code,
+            message: this.message,
+            stack: this.stack
+        };
+    }
+}
@@ -0,0 +1,98 @@
+/**
+ * Unity Loader
+ * Instantiates Unity WebGL builds from both loader generations
+ */
+
+import { UnityInstance, UnityBuildPaths, UnityLoaderGeneration } from '../../types/unity-types';
+
+// Fallbacks for anything GameConfig.unity leaves out
+export const DEFAULT_BUILD_PATHS: Required<UnityBuildPaths> = {
+    buildPath: 'Build',
+    dataPath: 'chaos-world.data',
+    frameworkPath: 'chaos-world.framework.js',
+    codePath: 'chaos-world.wasm',
+    loaderPath: 'chaos-world.loader.js',
+    legacyConfigPath: 'chaos-world.json',
+    streamingAssetsPath: 'StreamingAssets',
+    // webpack bakes the real version into GameConfig.unity; this only shows up in unbundled runs such as tests
+    version: 'dev'
+};
+
+// Unity's loaders report 0.9 once every file is downloaded, the rest covers unpacking
+export const DOWNLOAD_COMPLETE_PROGRESS = 0.9;
+
+export function resolveBuildPaths(paths: Partial<UnityBuildPaths> = {}): Required<UnityBuildPaths> {
+    return { ...DEFAULT_BUILD_PATHS, ...paths };
+}
+
+export function buildUrl(paths: Required<UnityBuildPaths>, file: string): string {
+    const base = paths.buildPath.replace(/\/+$/, '');
+    return base ? `${base}/${file}` : file;
+}
+
+// createUnityInstance wins when both loaders are on the page
+export function detectLoaderGeneration(): UnityLoaderGeneration | null {
+    if (typeof window.createUnityInstance === 'function') {
+        return 'modern';
+    }
+    if (typeof window.UnityLoader !== 'undefined') {
+        return 'legacy';
+    }
+    return null;
+}
+
+// Modern exports expect the page to load <name>.loader.js, which defines createUnityInstance
+export function injectLoaderScript(paths: Required<UnityBuildPaths>): HTMLScriptElement | null {
+    const src = buildUrl(paths, paths.loaderPath);
+    if (document.querySelector(`script[data-unity-loader="${src}"]`)) {
+        return null;
+    }
+
+    const script = document.createElement('script');
+    script.src = src;
+    script.async = true;
+    script.dataset.unityLoader = src;
+    script.onerror = () => {
+        console.warn(`Unity loader script not found at ${src}`);
+        // Let a retry inject it again
+        script.remove();
+    };
+    document.body.appendChild(script);
+    return script;
+}
+
+export function instantiateUnity(
+    generation: UnityLoaderGeneration,
+    canvas: HTMLCanvasElement,
+    paths: Required<UnityBuildPaths>,
+    onProgress: (progress: number) => void
+): Promise<UnityInstance> {
+    if (generation === 'modern') {
+        return window.createUnityInstance!(canvas, {
+            dataUrl: buildUrl(paths, paths.dataPath),
+            frameworkUrl: buildUrl(paths, paths.frameworkPath),
+            codeUrl: buildUrl(paths, paths.codePath),
+            streamingAssetsUrl: paths.streamingAssetsPath
+        }, onProgress);
+    }
+
+    // The legacy loader returns the instance immediately and signals readiness through the Module
+    return new Promise<UnityInstance>((resolve, reject) => {
+        try {
+            const instance: UnityInstance = window.UnityLoader.instantiate(
+                canvas,
+                buildUrl(paths, paths.legacyConfigPath),
+                {
+                    onProgress,
+                    Module: {
+                        onRuntimeInitialized: () => {
+                            resolve(instance);
+                        }
+                    }
+                }
+            );
+        } catch (error) {
+            reject(error);
+        }
+    });
+}
@@ -0,0 +1,29 @@
+/**
+ * Unity Method Routes
+ * Maps each bridge method to the Unity GameObject that handles it
+ */
+
+import { UnityMethodRoutes } from '../../types/unity-types';
+
+export const DEFAULT_METHOD_ROUTES: UnityMethodRoutes = {
+    UpdatePlayerStats: 'PlayerController',
+    TravelToLocation: 'PlayerController',
+    StartCultivation: 'CultivationSystem',
+    StopCultivation: 'CultivationSystem',
+    RealmBreakthrough: 'CultivationSystem',
+    StartCombat: 'CombatSystem',
+    UseCombatTechnique: 'CombatSystem',
+    Defend: 'CombatSystem',
+    UseItem: 'InventorySystem',
+    EquipItem: 'InventorySystem',
+    DropItem: 'InventorySystem',
+    SaveGame: 'GameManager',
+    LoadGame: 'GameManager',
+    UserLogin: 'GameManager',
+    UserLogout: 'GameManager',
+    SetQualitySettings: 'GameManager',
+    ApplyDeviceProfile: 'GameManager',
+    PauseGame: 'GameManager',
+    ResumeGame: 'GameManager',
+    UIReady: 'HybridUIManager'
+};
@@ -0,0 +1,11 @@
+/**
+ * Game Config
+ * Configuration baked into the bundle at build time from the files in config/
+ */
+
+import { BundledGameConfig } from '../types/game-types';
+
+// Defined by webpack; missing when the sources run unbundled, e.g. under Jest
+declare const GAME_CONFIG: BundledGameConfig | undefined;
+
+export const gameConfig: BundledGameConfig = typeof GAME_CONFIG !== 'undefined' ? GAME_CONFIG : {};
@@ -17,8 +17,39 @@ import { InventorySystem } from './ui/inventory-system';
 import { CombatUI } from './ui/combat-ui';
 import { WelcomeScene } from './ui/welcome-scene';
 import { UserProfileComponent } from './ui/user-profile';
-import { GameState, PlayerData, UnityEvent, SteamEvent, EventHandler, AuthFormData, UserProfile } from '../types/game-types';
+import { SettingsPanel } from './ui/settings-panel';
+import { LoadingScreen } from './ui/loading-screen';
+import { SceneLayout } from './ui/scene-layout';
+import { SaveSlotsPanel } from './ui/save-slots-panel';
+import { SaveIndicator } from './ui/save-indicator';
+import { SaveConflictDialog } from './ui/save-conflict-dialog';
+import {
+    GameState,
+    PlayerData,
+    PlayerStatsUpdate,
+    CultivationProgress,
+    CombatData,
+    CombatResult,
+    InventoryData,
+    SteamEventMap,
+    SaveEnvelope,
+    AuthFormData,
+    UserProfile
+} from '../types/game-types';
+import { UnityLoadingStatus, UnityPerformance, UnityRecoveryStatus } from '../types/unity-types';
 import { apiService } from './services/api-service';
+import { QualityController } from './services/quality-controller';
+import { DeviceProfileController } from './services/device-profile';
+import { FocusManager } from './services/focus-manager';
+import { GameStore, createInitialGameState } from './services/game-store';
+import { AUTO_SAVE_SLOT_ID, SaveSlotManager, captureThumbnail } from './services/save-slots';
+import { SaveFormatError, createSaveEnvelope } from './services/save-format';
+import { openSave, signSave } from './services/save-integrity';
+import { SaveSync } from './services/save-sync';
+import { AutoSaveScheduler, AutoSaveTrigger } from './services/auto-save';
+import { assetCache } from './services/asset-cache';
+import { gameConfig } from './game-config';
+import { FEATURE_REQUIREMENTS, getDisabledFeatures } from './bridge/protocol';
 
 class GameUI {
     private unityBridge: UnityBridge | null = null;
@@ -30,48 +61,52 @@ class GameUI {
     private combatUI: CombatUI | null = null;
     private welcomeScene: WelcomeScene | null = null;
     private userProfile: UserProfileComponent | null = null;
+    private settingsPanel: SettingsPanel | null = null;
+    private qualityController: QualityController | null = null;
+    private deviceProfile: DeviceProfileController | null = null;
+    private loadingScreen: LoadingScreen | null = null;
+    private sceneLayout: SceneLayout | null = null;
+    private focusManager: FocusManager | null = null;
+    private saveSlotsPanel: SaveSlotsPanel | null = null;
+    private saveIndicator: SaveIndicator | null = null;
+    private autoSave: AutoSaveScheduler | null = null;
+    private saveSync: SaveSync | null = null;
+    // Nothing is uploaded to Steam Cloud until its save was compared with the local one
+    private cloudSynced: boolean = false;
     
     private isInitialized: boolean = false;
     private isAuthenticated: boolean = false;
     private currentUser: UserProfile | null = null;
-    private gameState: GameState;
+    private store: GameStore;
+    private saveSlots: SaveSlotManager;
     
     constructor() {
-        this.gameState = this.initializeGameState();
+        this.store = new GameStore(createInitialGameState());
+        this.saveSlots = new SaveSlotManager();
         this.init();
     }
     
-    private initializeGameState(): GameState {
-        return {
-            player: {
-                level: 1,
-                health: 100,
-                maxHealth: 100,
-                mana: 50,
-                maxMana: 50,
-                experience: 0,
-                cultivationLevel: 1,
-                cultivationProgress: 0,
-                currentRealm: 'Qi Refining',
-                realmLevel: 1
-            },
-            game: {
-                isPaused: false,
-                isInCombat: false,
-                currentScene: 'main'
-            }
-        };
-    }
-    
     async init(): Promise<void> {
         try {
             console.log('🎮 Initializing Chaos World Game UI...');
             
+            // Pick the device profile first so the loading screen already uses the right layout
+            this.deviceProfile = new DeviceProfileController(request => {
+                this.unityBridge?.applyDeviceProfile(request);
+                this.qualityController?.setTargetFps(request.optimization.targetFramerate);
+            });
+            
+            this.loadingScreen = new LoadingScreen(() => this.retryUnity());
+            
+            // Cache the Unity build for the next visit and offline guest play
+            assetCache.register();
+            assetCache.getStatus().then(status => this.loadingScreen?.setCacheStatus(status));
+            
             // Initialize welcome scene first
             this.welcomeScene = new WelcomeScene();
             
-            // Check if user is already authenticated via API service
-            if (apiService.isAuthenticated()) {
+            // Check if user is already authenticated via API service; offline there is nothing to verify against
+            if (apiService.isAuthenticated() && navigator.onLine) {
                 try {
                     // Verify token is still valid by fetching current user
                     const response = await apiService.getCurrentUser();
@@ -92,8 +127,23 @@ class GameUI {
             }
             
             // Initialize Unity bridge
-            this.unityBridge = new UnityBridge();
-            await this.unityBridge.init();
+            this.unityBridge = new UnityBridge({ build: gameConfig.unity });
+            this.unityBridge.onLoadingStateChange((status: UnityLoadingStatus) => {
+                this.loadingScreen?.update(status);
+            });
+            this.unityBridge.on('LoadingProgress', (status: UnityLoadingStatus) => {
+                this.loadingScreen?.update(status);
+            });
+            this.unityBridge.setRecoverySnapshot(() => this.store.getState());
+            this.focusManager = new FocusManager(change => {
+                if (change.type === 'pause') {
+                    this.unityBridge?.pauseGame(change.request);
+                } else {
+                    this.unityBridge?.resumeGame(change.request);
+                }
+            });
+            // A failed load leaves the loading screen up with a retry button instead of aborting the UI
+            const unityLoaded = await this.unityBridge.init().then(() => true, () => false);
             
             // Initialize Steam integration
             this.steamIntegration = new SteamIntegration();
@@ -101,11 +151,35 @@ class GameUI {
             
             // Initialize UI components
             this.uiManager = new UIManager();
-            this.characterStats = new CharacterStats(this.gameState.player);
-            this.cultivationPanel = new CultivationPanel(this.gameState.player);
-            this.inventorySystem = new InventorySystem();
+            this.characterStats = new CharacterStats(this.store);
+            this.cultivationPanel = new CultivationPanel(this.store);
+            this.focusManager.registerTimer(this.cultivationPanel);
+            this.inventorySystem = new InventorySystem(this.store);
             this.combatUI = new CombatUI();
             this.userProfile = new UserProfileComponent();
+            this.qualityController = new QualityController(request => {
+                this.unityBridge?.setQualitySettings(request);
+                this.settingsPanel?.refresh();
+            }, this.deviceProfile.getOptimization().targetFramerate);
+            this.settingsPanel = new SettingsPanel(this.qualityController, this.deviceProfile, this.focusManager);
+            this.sceneLayout = new SceneLayout(this.store);
+            this.saveSync = new SaveSync((comparison, rule) => new SaveConflictDialog().ask(comparison, rule));
+            this.saveSlotsPanel = new SaveSlotsPanel(
+                this.saveSlots,
+                this.steamIntegration.isEnabled ? this.saveSync : null,
+                (slotId, name) => this.saveToSlot(slotId, name),
+                slotId => this.loadSlot(slotId)
+            );
+            this.saveIndicator = new SaveIndicator();
+            // Before the first auto-save, which would otherwise replace the player's save with a fresh state
+            this.restoreLocalSave();
+            this.autoSave = new AutoSaveScheduler(this.store, () => this.saveGame(), status => {
+                this.saveIndicator?.update(status);
+                if (status.state === 'saved') {
+                    this.saveSlotsPanel?.refresh();
+                }
+            });
+            this.focusManager.registerTimer(this.autoSave);
             
             // Setup event listeners
             this.setupEventListeners();
@@ -116,8 +190,12 @@ class GameUI {
             this.isInitialized = true;
             console.log('✅ Game UI initialized successfully');
             
-            // Notify Unity that UI is ready
-            this.unityBridge?.sendToUnity('UIReady', '');
+            // May wait for the player to pick between diverged saves, so it does not hold up Unity
+            this.syncCloudSave();
+            
+            if (unityLoaded) {
+                await this.onUnityReady();
+            }
             
         } catch (error) {
             console.error('❌ Failed to initialize Game UI:', error);
@@ -125,35 +203,99 @@ class GameUI {
         }
     }
     
+    private async onUnityReady(): Promise<void> {
+        // Notify Unity that UI is ready and check it speaks our protocol
+        await this.negotiateProtocol();
+        
+        // Quality can only be set at runtime, so every session starts by sending the saved choice
+        this.deviceProfile?.apply();
+        this.qualityController?.apply();
+        
+        this.loadingScreen?.complete();
+    }
+    
+    private retryUnity(): void {
+        this.unityBridge?.retry().then(() => this.onUnityReady(), () => {
+            // The bridge reports the failure through the loading state
+        });
+    }
+    
+    private async negotiateProtocol(): Promise<void> {
+        if (!this.unityBridge) return;
+        
+        const status = await this.unityBridge.performHandshake();
+        const disabledFeatures = getDisabledFeatures(status);
+        
+        disabledFeatures.forEach(feature => {
+            FEATURE_REQUIREMENTS[feature].elements.forEach(elementId => {
+                const element = document.getElementById(elementId) as HTMLButtonElement | null;
+                if (element) {
+                    element.disabled = true;
+                    element.title = 'Not supported by the loaded game version';
+                }
+            });
+        });
+        
+        if (!status.compatible) {
+            this.uiManager?.showIncompatibilityBanner(status.message || 'The game engine is not compatible with this interface.');
+        } else if (disabledFeatures.length > 0) {
+            this.uiManager?.showWarning(status.message || `Some features are unavailable in this game version: ${disabledFeatures.join(', ')}`);
+        }
+    }
+    
     private setupEventListeners(): void {
         // Unity bridge events
-        this.unityBridge?.on('PlayerStatsUpdated', (data: PlayerData) => {
+        this.unityBridge?.on('PlayerStatsUpdated', (data: PlayerStatsUpdate) => {
             this.updatePlayerStats(data);
         });
         
-        this.unityBridge?.on('CultivationProgress', (data: any) => {
+        this.unityBridge?.on('CultivationProgress', (data: CultivationProgress) => {
             this.updateCultivationProgress(data);
         });
         
-        this.unityBridge?.on('CombatStarted', (data: any) => {
+        this.unityBridge?.on('CombatStarted', (data: CombatData) => {
             this.startCombat(data);
         });
         
-        this.unityBridge?.on('CombatEnded', (data: any) => {
+        this.unityBridge?.on('CombatEnded', (data: CombatResult) => {
             this.endCombat(data);
         });
         
-        this.unityBridge?.on('InventoryUpdated', (data: any) => {
+        this.unityBridge?.on('InventoryUpdated', (data: InventoryData) => {
             this.updateInventory(data);
         });
         
-        // Steam integration events
-        this.steamIntegration?.on('AchievementUnlocked', (achievement: any) => {
-            this.showAchievement(achievement);
+        this.unityBridge?.on('GameStateChanged', (state: GameState) => {
+            this.applyGameState(state);
         });
         
-        this.steamIntegration?.on('CloudSaveLoaded', (saveData: any) => {
-            this.loadGameData(saveData);
+        this.unityBridge?.on('PerformanceSample', (sample: UnityPerformance) => {
+            this.uiManager?.recordPerformanceSample(sample);
+            // Frame rates while paused or throttled would make adaptive quality step down for nothing
+            if (this.focusManager?.isRunning()) {
+                this.qualityController?.addSample(sample);
+            }
+        });
+        
+        this.unityBridge?.on('UnityCrashed', () => {
+            this.uiManager?.showWarning('The game engine stopped unexpectedly. Restoring your session...');
+        });
+        
+        this.unityBridge?.on('UnityRecovered', (status: UnityRecoveryStatus) => {
+            this.deviceProfile?.apply();
+            this.qualityController?.apply();
+            this.uiManager?.showSuccess(status.restored
+                ? 'The game engine was restarted and your session restored.'
+                : 'The game engine was restarted.');
+        });
+        
+        this.unityBridge?.on('UnityRecoveryFailed', () => {
+            this.showError('The game engine keeps crashing. Please refresh the page.');
+        });
+        
+        // Steam integration events
+        this.steamIntegration?.on('AchievementUnlocked', (achievement: SteamEventMap['AchievementUnlocked']) => {
+            this.showAchievement(achievement);
         });
         
         // Window events
@@ -161,8 +303,9 @@ class GameUI {
             this.handleResize();
         });
         
+        // Through the scheduler, so a save held by a cloud sync or mid-fight is skipped like any other
         window.addEventListener('beforeunload', () => {
-            this.saveGame();
+            this.autoSave?.saveNow('page-hidden');
         });
         
         // Keyboard shortcuts
@@ -180,55 +323,107 @@ class GameUI {
         closeProfileBtn?.addEventListener('click', () => this.hideUserProfile());
     }
     
-    private updatePlayerStats(data: Partial<PlayerData>): void {
-        this.gameState.player = { ...this.gameState.player, ...data };
-        this.characterStats?.update(this.gameState.player);
-        this.cultivationPanel?.update(this.gameState.player);
+    private updatePlayerStats(data: PlayerStatsUpdate): void {
+        this.store.dispatch({ type: 'player/statsUpdated', stats: data }, 'unity');
     }
     
-    private updateCultivationProgress(data: any): void {
-        this.gameState.player.cultivationProgress = data.progress;
-        this.cultivationPanel?.setProgress(data.progress);
+    private updateCultivationProgress(data: CultivationProgress): void {
+        this.store.dispatch({
+            type: 'cultivation/progressed',
+            progress: data.progress,
+            realm: data.breakthrough ? data.realm : undefined
+        }, 'unity');
         
         if (data.breakthrough) {
             this.showBreakthroughNotification(data.realm);
             this.steamIntegration?.unlockAchievement('realm_breakthrough');
+            this.autoSave?.request('breakthrough');
         }
     }
     
-    private startCombat(data: any): void {
-        this.gameState.game.isInCombat = true;
+    // Unity owns the game flags; the UI only mirrors what it reports
+    private applyGameState(state: GameState): void {
+        this.store.dispatch({ type: 'unity/stateChanged', state }, 'unity');
+    }
+    
+    private startCombat(data: CombatData): void {
         this.combatUI?.show(data);
         this.uiManager?.showCombatUI();
     }
     
-    private endCombat(data: any): void {
-        this.gameState.game.isInCombat = false;
+    private endCombat(data: CombatResult): void {
         this.combatUI?.hide();
         this.uiManager?.hideCombatUI();
+        this.autoSave?.request('combat-end');
         
         if (data.victory) {
             this.showVictoryMessage(data.rewards);
         }
     }
     
-    private updateInventory(data: any): void {
-        this.inventorySystem?.update(data);
+    private updateInventory(data: InventoryData): void {
+        this.store.dispatch({ type: 'inventory/updated', inventory: data }, 'unity');
     }
     
-    private showAchievement(achievement: any): void {
+    private showAchievement(achievement: SteamEventMap['AchievementUnlocked']): void {
         this.uiManager?.showAchievement(achievement);
     }
     
-    private loadGameData(saveData: any): void {
-        this.gameState = { ...this.gameState, ...saveData };
-        this.updateAllUI();
-    }
-    
-    private updateAllUI(): void {
-        this.characterStats?.update(this.gameState.player);
-        this.cultivationPanel?.update(this.gameState.player);
-        this.inventorySystem?.update(this.gameState.inventory || { items: [], maxSlots: 0, totalWeight: 0, maxWeight: 0 });
+    private async syncCloudSave(): Promise<void> {
+        if (!this.steamIntegration?.isEnabled || !this.saveSync) return;
+        
+        // Auto-saves would overwrite the local slot while the player is still comparing it against the cloud one
+        this.autoSave?.hold();
+        try {
+            const data = await this.steamIntegration.loadFromCloud();
+            if (data === null) {
+                // Nothing in the cloud yet; the next save uploads
+                this.cloudSynced = true;
+                return;
+            }
+            
+            const cloud = openSave(data, 'steam-cloud');
+            let local: SaveEnvelope | null = null;
+            try {
+                local = this.saveSlots.loadEnvelope(AUTO_SAVE_SLOT_ID);
+            } catch (error) {
+                // An unreadable or edited local save never outweighs the cloud one
+                console.warn('Local auto-save not used for sync:', error);
+                this.uiManager?.showWarning(`Your save on this device was not used. ${(error as Error).message}`);
+            }
+            const result = await this.saveSync.resolve(local, cloud);
+            this.cloudSynced = true;
+            
+            if (result === 'cloud') {
+                this.store.dispatch({ type: 'save/loaded', save: cloud.state }, 'cloud');
+                this.unityBridge?.loadGame(cloud.state);
+                this.saveSlots.continuePlaytime(cloud.summary.playtime);
+                const slot = this.saveSlots.saveAuto(cloud.state);
+                this.saveSync.markSynced(slot.metadata.savedAt);
+                if (local) {
+                    this.uiManager?.showSuccess('Continuing from your Steam Cloud save');
+                }
+            } else if (local) {
+                // The auto-save is kept, so play continues from it even if another slot was newer
+                this.store.dispatch({ type: 'save/loaded', save: local.state }, 'cloud');
+                this.unityBridge?.loadGame(local.state);
+                this.saveSlots.continuePlaytime(local.summary.playtime);
+                if (result === 'local') {
+                    this.steamIntegration.saveToCloud(signSave(local));
+                }
+                this.saveSync.markSynced(local.savedAt);
+            } else {
+                this.saveSync.markSynced(cloud.savedAt);
+            }
+        } catch (error) {
+            // Leave the cloud save alone rather than overwrite what we could not read
+            console.error('Failed to sync with Steam Cloud:', error);
+            this.uiManager?.showWarning(error instanceof SaveFormatError
+                ? `Your Steam Cloud save could not be loaded. ${error.message}`
+                : 'Steam Cloud is not reachable. Progress is saved on this device only.');
+        } finally {
+            this.autoSave?.release();
+        }
     }
     
     private handleResize(): void {
@@ -254,16 +449,74 @@ class GameUI {
         }
     }
     
-    private saveGame(): void {
+    // Rejects when the local auto-save could not be written; Unity and Steam Cloud are best effort
+    private async saveGame(): Promise<void> {
+        this.saveSlots.saveAuto(this.store.getState(), this.captureThumbnail());
+        
         if (this.unityBridge && this.unityBridge.isReady) {
-            this.unityBridge.sendToUnity('SaveGame', JSON.stringify(this.gameState));
+            this.unityBridge.saveGame(this.store.getState()).catch(error => {
+                console.warn('Unity did not confirm save:', error);
+            });
+        }
+        
+        if (this.steamIntegration && this.steamIntegration.isEnabled && this.cloudSynced) {
+            const envelope = signSave(createSaveEnvelope(this.store.getState(), this.saveSlots.getPlaytime()));
+            this.steamIntegration.saveToCloud(envelope);
+            this.saveSync?.markSynced(envelope.savedAt);
+        }
+    }
+    
+    private async saveToSlot(slotId: string | undefined, name: string): Promise<void> {
+        try {
+            const slot = this.saveSlots.save(this.store.getState(), { id: slotId, name, thumbnail: this.captureThumbnail() });
+            this.uiManager?.showSuccess(`Game saved to "${slot.name}"`);
+        } catch (error) {
+            console.error('Failed to save game:', error);
+            this.showError(`Save failed: ${(error as Error).message}`);
+        }
+    }
+    
+    private loadSlot(slotId: string): void {
+        let slot;
+        try {
+            slot = this.saveSlots.load(slotId);
+        } catch (error) {
+            console.error(`Failed to load save slot ${slotId}:`, error);
+            this.showError((error as Error).message);
+            return;
+        }
+        if (!slot) {
+            this.showError('That save could not be loaded.');
+            return;
         }
         
-        if (this.steamIntegration && this.steamIntegration.isEnabled) {
-            this.steamIntegration.saveToCloud(this.gameState);
+        this.store.dispatch({ type: 'save/loaded', save: slot.state });
+        this.unityBridge?.loadGame(slot.state);
+        this.uiManager?.showSuccess(`Loaded "${slot.name}"`);
+    }
+    
+    // The auto-save, else the newest slot; Steam Cloud may still replace it once synced
+    private restoreLocalSave(): void {
+        for (const candidate of this.saveSlots.list()) {
+            try {
+                const slot = this.saveSlots.load(candidate.id);
+                if (!slot) continue;
+                
+                this.store.dispatch({ type: 'save/loaded', save: slot.state });
+                this.unityBridge?.loadGame(slot.state);
+                console.log(`💾 Restored "${slot.name}"`);
+                return;
+            } catch (error) {
+                console.warn(`Failed to restore save slot ${candidate.id}:`, error);
+                this.uiManager?.showWarning(`"${candidate.name}" could not be loaded. ${(error as Error).message}`);
+            }
         }
     }
     
+    private captureThumbnail(): string | undefined {
+        return captureThumbnail(document.getElementById('unity-canvas') as HTMLCanvasElement | null);
+    }
+    
     private showError(message: string): void {
         this.uiManager?.showError(message);
     }
@@ -272,8 +525,10 @@ class GameUI {
         this.uiManager?.showNotification(`Breakthrough! You have reached ${realm}!`, 'success');
     }
     
-    private showVictoryMessage(rewards: any): void {
-        this.uiManager?.showNotification(`Victory! You gained ${rewards.experience} experience!`, 'success');
+    private showVictoryMessage(rewards: CombatResult['rewards']): void {
+        this.uiManager?.showNotification(rewards
+            ? `Victory! You gained ${rewards.experience} experience!`
+            : 'Victory!', 'success');
     }
     
     private toggleDebugMode(): void {
@@ -356,17 +611,14 @@ class GameUI {
         console.log('Initializing game for user:', user.username);
         
         // Update game state with user data
-        this.gameState.player.level = user.level;
-        
-        // Update UI components
-        this.updateAllUI();
+        this.store.dispatch({ type: 'user/loggedIn', level: user.level });
         
         // Notify Unity about user login
-        this.unityBridge?.sendToUnity('UserLogin', JSON.stringify({
+        this.unityBridge?.send('UserLogin', {
             userId: user.id,
             username: user.username,
             level: user.level
-        }));
+        });
     }
     
     // Public methods for external access
@@ -383,10 +635,15 @@ class GameUI {
             this.showWelcomeScene();
             
             // Notify Unity about logout
-            this.unityBridge?.sendToUnity('UserLogout', '');
+            this.unityBridge?.send('UserLogout', null);
         }
     }
     
+    // Lets UI components ask for a save after something worth keeping happened
+    requestAutoSave(trigger: AutoSaveTrigger): void {
+        this.autoSave?.request(trigger);
+    }
+    
     getCurrentUser(): UserProfile | null {
         return this.currentUser;
     }
@@ -0,0 +1,129 @@
+/**
+ * Service Worker
+ * Caches the versioned Unity build and the web assets so the game can start offline
+ */
+
+// The DOM lib has no service worker types; only what this worker uses is declared
+interface ExtendableEvent extends Event {
+    waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+    request: Request;
+    respondWith(response: Promise<Response> | Response): void;
+}
+
+interface ServiceWorkerScope {
+    location: Location;
+    clients: { claim(): Promise<void> };
+    skipWaiting(): Promise<void>;
+    addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+    addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+}
+
+const worker = self as unknown as ServiceWorkerScope;
+
+// Registered as service-worker.js?build=<version>&web=<hash>, so a new Unity build or web deploy installs a new worker
+const WORKER_PARAMS = new URL(worker.location.href).searchParams;
+const BUILD_VERSION = WORKER_PARAMS.get('build') || 'dev';
+const WEB_VERSION = WORKER_PARAMS.get('web') || BUILD_VERSION;
+const BUILD_CACHE_PREFIX = 'chaos-world-build-';
+const BUILD_CACHE = `${BUILD_CACHE_PREFIX}${BUILD_VERSION}`;
+// Every deploy brings new contenthash bundles, so the web cache is versioned and evicted like the build cache
+const WEB_CACHE_PREFIX = 'chaos-world-web-';
+const WEB_CACHE = `${WEB_CACHE_PREFIX}${WEB_VERSION}`;
+// The bundles the app shell links to
+const SHELL_ASSET_PATTERN = /(?:src|href)="(\/static\/[^"]+)"/g;
+
+// Unity build files never change within a version, so they are served cache-first
+const BUILD_PATH_PATTERN = /\/(Build|StreamingAssets)\//;
+// Dev server traffic that must never be cached
+const UNCACHED_PATH_PATTERN = /hot-update|\/ws$|\/sockjs-node|\/api\//;
+
+worker.addEventListener('install', (event: ExtendableEvent) => {
+    // The page that registered this worker loaded before it could cache anything
+    event.waitUntil(precacheShell()
+        .catch(error => console.warn('Failed to cache the app shell:', error))
+        .then(() => worker.skipWaiting()));
+});
+
+worker.addEventListener('activate', (event: ExtendableEvent) => {
+    event.waitUntil(Promise.all([
+        evictOldCaches(BUILD_CACHE_PREFIX, BUILD_CACHE, 'Unity build'),
+        evictOldCaches(WEB_CACHE_PREFIX, WEB_CACHE, 'web assets')
+    ]).then(() => worker.clients.claim()));
+});
+
+worker.addEventListener('fetch', (event: FetchEvent) => {
+    const request = event.request;
+    const url = new URL(request.url);
+
+    if (request.method !== 'GET' || url.origin !== worker.location.origin || UNCACHED_PATH_PATTERN.test(url.pathname)) {
+        return;
+    }
+
+    if (BUILD_PATH_PATTERN.test(url.pathname)) {
+        event.respondWith(cacheFirst(request, BUILD_CACHE));
+    } else {
+        event.respondWith(networkFirst(request, WEB_CACHE));
+    }
+});
+
+// Also removes the unversioned web cache written by earlier workers
+async function evictOldCaches(prefix: string, current: string, label: string): Promise<void> {
+    const names = await caches.keys();
+    await Promise.all(names
+        .filter(name => (name.startsWith(prefix) || `${name}-` === prefix) && name !== current)
+        .map(name => {
+            console.log(`🗑️ Evicting cached ${label} ${name.slice(prefix.length) || '(unversioned)'}`);
+            return caches.delete(name);
+        }));
+}
+
+// Caches the page and the bundles it links to, so the game still starts offline after a deploy
+async function precacheShell(): Promise<void> {
+    const cache = await caches.open(WEB_CACHE);
+    const response = await fetch('/', { cache: 'no-cache' });
+    if (response.status !== 200) return;
+
+    const html = await response.clone().text();
+    await cache.put('/', response);
+    await cache.addAll(Array.from(html.matchAll(SHELL_ASSET_PATTERN), match => match[1]));
+}
+
+async function cacheFirst(request: Request, cacheName: string): Promise<Response> {
+    const cache = await caches.open(cacheName);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    // Partial (206) responses cannot be stored and would corrupt the build
+    if (response.status === 200) {
+        await cache.put(request, response.clone());
+    }
+    return response;
+}
+
+async function networkFirst(request: Request, cacheName: string): Promise<Response> {
+    const cache = await caches.open(cacheName);
+
+    try {
+        const response = await fetch(request);
+        if (response.status === 200) {
+            await cache.put(request, response.clone());
+        }
+        return response;
+    } catch (error) {
+        const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+        if (cached) return cached;
+
+        // Offline deep links fall back to the app shell
+        if (request.mode === 'navigate') {
+            const shell = await cache.match('/index.html') || await cache.match('/');
+            if (shell) return shell;
+        }
+        throw error;
+    }
+}
+
+export {};
@@ -256,6 +256,15 @@ export class ApiService {
         }
     }
 
+    // Telemetry; a report that does not arrive is only logged and never affects the game
+    async reportTelemetry(event: string, data: Record<string, unknown>): Promise<void> {
+        try {
+            await this.api.post('/telemetry/events', { event, data, timestamp: new Date().toISOString() });
+        } catch (error) {
+            console.warn(`Telemetry event ${event} was not delivered:`, error);
+        }
+    }
+
     // Utility methods
     isAuthenticated(): boolean {
         return !!this.accessToken;
@@ -0,0 +1,126 @@
+/**
+ * Asset Cache Service
+ * Registers the caching service worker and reports how much of the Unity build is cached
+ */
+
+import { UnityBuildCacheStatus, UnityBuildPaths } from '../../types/unity-types';
+import { buildUrl, resolveBuildPaths } from '../bridge/unity-loader';
+import { gameConfig } from '../game-config';
+
+// Must match the cache naming in service-worker.ts
+const BUILD_CACHE_PREFIX = 'chaos-world-build-';
+
+// Compilation hash provided by webpack; changes with every deploy of the web assets
+declare const __webpack_hash__: string | undefined;
+const WEB_VERSION = typeof __webpack_hash__ !== 'undefined' ? __webpack_hash__ : 'dev';
+
+export class AssetCacheService {
+    private paths: Required<UnityBuildPaths>;
+
+    constructor(paths: Partial<UnityBuildPaths> = {}) {
+        this.paths = resolveBuildPaths(paths);
+    }
+
+    isSupported(): boolean {
+        return 'serviceWorker' in navigator && typeof caches !== 'undefined' && window.isSecureContext;
+    }
+
+    async register(): Promise<void> {
+        if (!this.isSupported()) {
+            console.warn('Service workers are not available, the game will not be cached for offline play');
+            return;
+        }
+
+        try {
+            const version = encodeURIComponent(this.paths.version);
+            await navigator.serviceWorker.register(`/service-worker.js?build=${version}&web=${WEB_VERSION}`, {
+                scope: '/',
+                // Always check the network for a new worker, whatever the hosting cache headers say
+                updateViaCache: 'none'
+            });
+            console.log(`✅ Service worker registered (build ${this.paths.version})`);
+        } catch (error) {
+            console.error('❌ Failed to register service worker:', error);
+        }
+    }
+
+    // The files createUnityInstance needs before the game can start
+    private getRequiredUrls(): string[] {
+        return [this.paths.loaderPath, this.paths.frameworkPath, this.paths.dataPath, this.paths.codePath]
+            .map(file => new URL(buildUrl(this.paths, file), window.location.href).href);
+    }
+
+    async getStatus(): Promise<UnityBuildCacheStatus> {
+        const status: UnityBuildCacheStatus = {
+            supported: this.isSupported(),
+            version: this.paths.version,
+            cached: false,
+            cachedBytes: 0,
+            downloadBytes: null,
+            offline: !navigator.onLine
+        };
+
+        if (!status.supported) {
+            status.downloadBytes = await this.measureDownload(this.getRequiredUrls());
+            return status;
+        }
+
+        try {
+            const cache = await caches.open(`${BUILD_CACHE_PREFIX}${this.paths.version}`);
+            const missing: string[] = [];
+
+            for (const url of this.getRequiredUrls()) {
+                const response = await cache.match(url);
+                if (response) {
+                    status.cachedBytes += await this.responseSize(response);
+                } else {
+                    missing.push(url);
+                }
+            }
+
+            status.cached = missing.length === 0;
+            status.downloadBytes = status.cached ? 0 : await this.measureDownload(missing);
+        } catch (error) {
+            console.warn('Failed to read the build cache:', error);
+        }
+
+        return status;
+    }
+
+    async isBuildCached(): Promise<boolean> {
+        return (await this.getStatus()).cached;
+    }
+
+    private async responseSize(response: Response): Promise<number> {
+        const length = response.headers.get('content-length');
+        if (length) return parseInt(length, 10);
+
+        const blob = await response.blob();
+        return blob.size;
+    }
+
+    // HEAD requests give the download size without fetching the files
+    private async measureDownload(urls: string[]): Promise<number | null> {
+        if (!navigator.onLine) return null;
+
+        try {
+            const sizes = await Promise.all(urls.map(async url => {
+                const response = await fetch(url, { method: 'HEAD', cache: 'no-store' });
+                const length = response.ok ? response.headers.get('content-length') : null;
+                return length ? parseInt(length, 10) : null;
+            }));
+            return sizes.some(size => size === null) ? null : sizes.reduce<number>((total, size) => total + size!, 0);
+        } catch (error) {
+            return null;
+        }
+    }
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${bytes} B`;
+}
+
+export const assetCache = new AssetCacheService(gameConfig.unity);
@@ -0,0 +1,198 @@
+/**
+ * Auto-Save Scheduler
+ * Saves on a timer, after key game events and when the page is hidden; waits out combat and throttles bursts
+ */
+
+import { SteamConfig } from '../../types/game-types';
+import { gameConfig } from '../game-config';
+import { GameStore } from './game-store';
+import { SuspendableTimer } from './focus-manager';
+import { Unsubscribe } from './event-emitter';
+
+export type AutoSaveConfig = Pick<SteamConfig['cloudSaves'], 'autoSave' | 'autoSaveInterval'>;
+
+export type AutoSaveTrigger = 'timer' | 'breakthrough' | 'combat-end' | 'item-equip' | 'page-hidden';
+
+export interface AutoSaveStatus {
+    state: 'idle' | 'saving' | 'saved' | 'failed';
+    lastSavedAt: number | null;
+    lastTrigger?: AutoSaveTrigger;
+    error?: string;
+}
+
+// Matches cloudSaves in config/steam-config.json; autoSaveInterval is in seconds
+export const DEFAULT_AUTO_SAVE_CONFIG: AutoSaveConfig = {
+    autoSave: true,
+    autoSaveInterval: 300
+};
+
+// Several triggers in a row, e.g. a breakthrough right after combat, end up as one save
+const MIN_SAVE_GAP = 15000;
+
+// Reads cloudSaves from the Steam config baked into the bundle
+export function resolveAutoSaveConfig(
+    cloudSaves: Partial<SteamConfig['cloudSaves']> = gameConfig.steam?.cloudSaves || {}
+): AutoSaveConfig {
+    const interval = cloudSaves.autoSaveInterval;
+
+    return {
+        autoSave: cloudSaves.autoSave !== false,
+        autoSaveInterval: interval && interval > 0 ? interval : DEFAULT_AUTO_SAVE_CONFIG.autoSaveInterval
+    };
+}
+
+export class AutoSaveScheduler implements SuspendableTimer {
+    private store: GameStore;
+    private save: () => Promise<void>;
+    private onStatus: (status: AutoSaveStatus) => void;
+    private config: AutoSaveConfig;
+    private status: AutoSaveStatus = { state: 'idle', lastSavedAt: null };
+    private interval: ReturnType<typeof setInterval> | null = null;
+    private throttleTimer: ReturnType<typeof setTimeout> | null = null;
+    // Trigger waiting for combat to end, a hold to be released or the throttle gap
+    private pending: AutoSaveTrigger | null = null;
+    private held: boolean = false;
+    private lastAttemptAt: number = 0;
+    private unsubscribe: Unsubscribe;
+    private handleVisibilityChange = () => {
+        if (document.visibilityState === 'hidden') {
+            this.saveNow('page-hidden');
+        }
+    };
+
+    constructor(
+        store: GameStore,
+        save: () => Promise<void>,
+        onStatus: (status: AutoSaveStatus) => void,
+        config: AutoSaveConfig = resolveAutoSaveConfig()
+    ) {
+        this.store = store;
+        this.save = save;
+        this.onStatus = onStatus;
+        this.config = config;
+
+        // A save held back by combat runs as soon as Unity reports the fight is over
+        this.unsubscribe = store.subscribe(state => state.game.isInCombat, inCombat => {
+            if (!inCombat && this.pending) {
+                this.request(this.pending);
+            }
+        });
+
+        if (config.autoSave) {
+            // Browsers often skip beforeunload; hiding the page is the last reliable moment to save
+            document.addEventListener('visibilitychange', this.handleVisibilityChange);
+            this.startTimer();
+        }
+        console.log(`💾 Auto-save ${config.autoSave ? `every ${config.autoSaveInterval}s` : 'disabled'}`);
+    }
+
+    getStatus(): AutoSaveStatus {
+        return { ...this.status };
+    }
+
+    // Saves now, later when combat ends, or once the throttle gap has passed
+    request(trigger: AutoSaveTrigger): void {
+        if (!this.config.autoSave) return;
+
+        if (this.held || this.store.getState().game.isInCombat) {
+            this.pending = trigger;
+            return;
+        }
+
+        const wait = this.lastAttemptAt + MIN_SAVE_GAP - Date.now();
+        if (wait > 0) {
+            this.pending = trigger;
+            if (!this.throttleTimer) {
+                this.throttleTimer = setTimeout(() => {
+                    this.throttleTimer = null;
+                    if (this.pending) {
+                        this.request(this.pending);
+                    }
+                }, wait);
+            }
+            return;
+        }
+
+        this.run(trigger);
+    }
+
+    // Ignores throttling; used when the page may be about to go away
+    saveNow(trigger: AutoSaveTrigger): void {
+        if (!this.config.autoSave) return;
+
+        // A mid-fight save would load into a fight Unity no longer has; the last save from before it stays
+        if (this.held || this.store.getState().game.isInCombat) {
+            this.pending = trigger;
+            return;
+        }
+
+        this.run(trigger);
+    }
+
+    // Holds back every save until release(), e.g. while the local save is compared against the cloud one
+    hold(): void {
+        this.held = true;
+    }
+
+    release(): void {
+        this.held = false;
+        if (this.pending) {
+            this.request(this.pending);
+        }
+    }
+
+    // Called by the focus manager while the game is paused; no progress is made, so there is nothing to save
+    suspend(): void {
+        this.stopTimer();
+    }
+
+    resume(): void {
+        if (this.config.autoSave) {
+            this.startTimer();
+        }
+    }
+
+    destroy(): void {
+        this.stopTimer();
+        this.unsubscribe();
+        document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+        if (this.throttleTimer) {
+            clearTimeout(this.throttleTimer);
+            this.throttleTimer = null;
+        }
+    }
+
+    private run(trigger: AutoSaveTrigger): void {
+        this.pending = null;
+        this.lastAttemptAt = Date.now();
+        this.setStatus({ ...this.status, state: 'saving', lastTrigger: trigger, error: undefined });
+
+        this.save().then(() => {
+            this.setStatus({ state: 'saved', lastSavedAt: Date.now(), lastTrigger: trigger });
+        }, (error: unknown) => {
+            console.error(`Auto-save (${trigger}) failed:`, error);
+            this.setStatus({
+                ...this.status,
+                state: 'failed',
+                error: error instanceof Error ? error.message : String(error)
+            });
+        });
+    }
+
+    private setStatus(status: AutoSaveStatus): void {
+        this.status = status;
+        this.onStatus(this.getStatus());
+    }
+
+    private startTimer(): void {
+        this.stopTimer();
+        this.interval = setInterval(() => this.request('timer'), this.config.autoSaveInterval * 1000);
+    }
+
+    private stopTimer(): void {
+        if (this.interval) {
+            clearInterval(this.interval);
+            this.interval = null;
+        }
+    }
+}
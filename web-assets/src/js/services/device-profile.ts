@@ -0,0 +1,211 @@
+/**
+ * Device Profile
+ * Detects device capabilities and picks the mobile optimisation profile sent to Unity
+ */
+
+import {
+    UnityDeviceCapabilities,
+    UnityDeviceProfile,
+    UnityDeviceProfileRequest,
+    UnityMobileOptimization
+} from '../../types/unity-types';
+
+// mobile-high matches the build-time mobileOptimization in config/unity-config.json
+export const DEVICE_PROFILES: Record<UnityDeviceProfile, UnityMobileOptimization> = {
+    desktop: {
+        enableMobileOptimization: false,
+        targetFramerate: 60,
+        maxTextureSize: 2048,
+        textureCompression: 'DXT5',
+        audioCompression: 'Vorbis',
+        audioQuality: 0.8,
+        particleSystemBudget: 400,
+        maxParticleCount: 5000
+    },
+    'mobile-high': {
+        enableMobileOptimization: true,
+        targetFramerate: 30,
+        maxTextureSize: 512,
+        textureCompression: 'DXT1',
+        audioCompression: 'Vorbis',
+        audioQuality: 0.5,
+        particleSystemBudget: 100,
+        maxParticleCount: 1000
+    },
+    'mobile-low': {
+        enableMobileOptimization: true,
+        targetFramerate: 30,
+        maxTextureSize: 256,
+        textureCompression: 'DXT1',
+        audioCompression: 'Vorbis',
+        audioQuality: 0.3,
+        particleSystemBudget: 50,
+        maxParticleCount: 400
+    }
+};
+
+export const DEVICE_PROFILE_LABELS: Record<UnityDeviceProfile, string> = {
+    desktop: 'Desktop',
+    'mobile-high': 'Mobile',
+    'mobile-low': 'Mobile (Battery Saver)'
+};
+
+const STORAGE_KEY = 'chaos-world-device-profile';
+// Phones and most tablets report a short side at or below this many CSS pixels
+const MOBILE_SCREEN_LIMIT = 1024;
+
+// Reads WebGL limits from a throwaway context that is released straight away
+function detectWebGLLimits(): Pick<UnityDeviceCapabilities, 'maxTextureSize' | 'textureCompression' | 'renderer'> {
+    const limits: Pick<UnityDeviceCapabilities, 'maxTextureSize' | 'textureCompression' | 'renderer'> = {
+        maxTextureSize: 0,
+        textureCompression: null
+    };
+
+    try {
+        const canvas = document.createElement('canvas');
+        const gl = (canvas.getContext('webgl2') || canvas.getContext('webgl')) as WebGLRenderingContext | null;
+        if (!gl) return limits;
+
+        limits.maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+
+        if (gl.getExtension('WEBGL_compressed_texture_astc')) {
+            limits.textureCompression = 'ASTC';
+        } else if (gl.getExtension('WEBGL_compressed_texture_etc')) {
+            limits.textureCompression = 'ETC2';
+        } else if (gl.getExtension('WEBGL_compressed_texture_s3tc')) {
+            limits.textureCompression = 'DXT5';
+        } else if (gl.getExtension('WEBGL_compressed_texture_etc1')) {
+            limits.textureCompression = 'ETC';
+        }
+
+        const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+        if (debugInfo) {
+            limits.renderer = gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL);
+        }
+
+        gl.getExtension('WEBGL_lose_context')?.loseContext();
+    } catch (error) {
+        console.warn('Failed to read WebGL limits:', error);
+    }
+
+    return limits;
+}
+
+export function detectDeviceCapabilities(): UnityDeviceCapabilities {
+    const nav = navigator as Navigator & { deviceMemory?: number };
+
+    return {
+        touch: 'ontouchstart' in window || navigator.maxTouchPoints > 0,
+        coarsePointer: !!window.matchMedia && window.matchMedia('(pointer: coarse)').matches,
+        screenWidth: window.screen.width,
+        screenHeight: window.screen.height,
+        pixelRatio: window.devicePixelRatio || 1,
+        deviceMemory: nav.deviceMemory,
+        hardwareConcurrency: navigator.hardwareConcurrency,
+        ...detectWebGLLimits()
+    };
+}
+
+export function selectDeviceProfile(capabilities: UnityDeviceCapabilities): UnityDeviceProfile {
+    const shortSide = Math.min(capabilities.screenWidth, capabilities.screenHeight);
+    const isMobile = capabilities.touch && capabilities.coarsePointer && shortSide <= MOBILE_SCREEN_LIMIT;
+    if (!isMobile) return 'desktop';
+
+    const isLowEnd = (capabilities.deviceMemory !== undefined && capabilities.deviceMemory <= 2)
+        || (capabilities.hardwareConcurrency !== undefined && capabilities.hardwareConcurrency <= 4)
+        || capabilities.maxTextureSize < 4096;
+
+    return isLowEnd ? 'mobile-low' : 'mobile-high';
+}
+
+export class DeviceProfileController {
+    private capabilities: UnityDeviceCapabilities;
+    private detectedProfile: UnityDeviceProfile;
+    private override: UnityDeviceProfile | null;
+    private onApply: (request: UnityDeviceProfileRequest) => void;
+
+    constructor(onApply: (request: UnityDeviceProfileRequest) => void) {
+        this.onApply = onApply;
+        this.capabilities = detectDeviceCapabilities();
+        this.detectedProfile = selectDeviceProfile(this.capabilities);
+        this.override = this.loadOverride();
+
+        console.log(`📱 Device profile: ${this.getProfile()} (detected ${this.detectedProfile})`);
+        this.updateLayout();
+    }
+
+    getCapabilities(): UnityDeviceCapabilities {
+        return { ...this.capabilities };
+    }
+
+    getDetectedProfile(): UnityDeviceProfile {
+        return this.detectedProfile;
+    }
+
+    getOverride(): UnityDeviceProfile | null {
+        return this.override;
+    }
+
+    getProfile(): UnityDeviceProfile {
+        return this.override || this.detectedProfile;
+    }
+
+    getOptimization(): UnityMobileOptimization {
+        const optimization = { ...DEVICE_PROFILES[this.getProfile()] };
+
+        // Never ask for textures or a compression format the GPU cannot handle
+        if (this.capabilities.maxTextureSize > 0) {
+            optimization.maxTextureSize = Math.min(optimization.maxTextureSize, this.capabilities.maxTextureSize);
+        }
+        if (optimization.enableMobileOptimization && this.capabilities.textureCompression) {
+            optimization.textureCompression = this.capabilities.textureCompression;
+        }
+
+        return optimization;
+    }
+
+    // null goes back to the detected profile
+    setOverride(profile: UnityDeviceProfile | null): void {
+        this.override = profile;
+        this.saveOverride();
+        this.updateLayout();
+        this.apply();
+    }
+
+    isTouchLayout(): boolean {
+        return this.getProfile() !== 'desktop';
+    }
+
+    apply(): void {
+        this.onApply({
+            profile: this.getProfile(),
+            manual: this.override !== null,
+            optimization: this.getOptimization()
+        });
+    }
+
+    private updateLayout(): void {
+        document.body.classList.toggle('touch-layout', this.isTouchLayout());
+    }
+
+    private loadOverride(): UnityDeviceProfile | null {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY) as UnityDeviceProfile | null;
+            return stored && DEVICE_PROFILES[stored] ? stored : null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    private saveOverride(): void {
+        try {
+            if (this.override) {
+                localStorage.setItem(STORAGE_KEY, this.override);
+            } else {
+                localStorage.removeItem(STORAGE_KEY);
+            }
+        } catch (error) {
+            console.warn('Failed to save device profile:', error);
+        }
+    }
+}
@@ -0,0 +1,120 @@
+/**
+ * Typed Event Emitter
+ * Event emitter checked against an event name -> payload map, shared by UnityBridge and SteamIntegration
+ */
+
+import { EventHandler } from '../../types/game-types';
+
+// Listeners may be async; a rejected promise is logged like a thrown error
+export type EventListener<T> = (data: T) => void | Promise<void>;
+export type WildcardListener<M> = <K extends keyof M & string>(event: K, data: M[K]) => void | Promise<void>;
+export type Unsubscribe = () => void;
+
+interface ListenerEntry {
+    listener: EventHandler;
+    once: boolean;
+}
+
+export class TypedEventEmitter<M> {
+    private listeners: Map<keyof M & string, ListenerEntry[]> = new Map();
+    private wildcardListeners: WildcardListener<M>[] = [];
+    private label: string;
+
+    // label only names the emitter in error logs
+    constructor(label: string) {
+        this.label = label;
+    }
+
+    on<K extends keyof M & string>(event: K, listener: EventListener<M[K]>): Unsubscribe {
+        return this.addListener(event, listener, false);
+    }
+
+    once<K extends keyof M & string>(event: K, listener: EventListener<M[K]>): Unsubscribe {
+        return this.addListener(event, listener, true);
+    }
+
+    off<K extends keyof M & string>(event: K, listener: EventListener<M[K]>): void {
+        const entries = this.listeners.get(event);
+        if (!entries) return;
+
+        const index = entries.findIndex(entry => entry.listener === listener);
+        if (index > -1) {
+            entries.splice(index, 1);
+        }
+        if (entries.length === 0) {
+            this.listeners.delete(event);
+        }
+    }
+
+    // Receives every event after its own listeners have run
+    onAny(listener: WildcardListener<M>): Unsubscribe {
+        this.wildcardListeners.push(listener);
+        return () => this.offAny(listener);
+    }
+
+    offAny(listener: WildcardListener<M>): void {
+        const index = this.wildcardListeners.indexOf(listener);
+        if (index > -1) {
+            this.wildcardListeners.splice(index, 1);
+        }
+    }
+
+    emit<K extends keyof M & string>(event: K, data: M[K]): void {
+        const entries = this.listeners.get(event);
+        if (entries) {
+            // Copy first so listeners can unsubscribe while the event is delivered
+            entries.slice().forEach(entry => {
+                if (entry.once) {
+                    this.off(event, entry.listener);
+                }
+                this.invoke(event, () => entry.listener(data));
+            });
+        }
+
+        this.wildcardListeners.slice().forEach(listener => {
+            this.invoke(event, () => listener(event, data));
+        });
+    }
+
+    listenerCount(event?: keyof M & string): number {
+        if (event) {
+            return this.listeners.get(event)?.length || 0;
+        }
+        let count = this.wildcardListeners.length;
+        this.listeners.forEach(entries => count += entries.length);
+        return count;
+    }
+
+    eventNames(): Array<keyof M & string> {
+        return Array.from(this.listeners.keys());
+    }
+
+    removeAllListeners(): void {
+        this.listeners.clear();
+        this.wildcardListeners = [];
+    }
+
+    private addListener(event: keyof M & string, listener: EventHandler, once: boolean): Unsubscribe {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, []);
+        }
+        this.listeners.get(event)!.push({ listener, once });
+        return () => this.off(event, listener);
+    }
+
+    // One failing listener never stops the others
+    private invoke(event: string, call: () => unknown): void {
+        try {
+            const result = call();
+            if (result && typeof (result as Promise<void>).catch === 'function') {
+                (result as Promise<void>).catch(error => this.reportError(event, error));
+            }
+        } catch (error) {
+            this.reportError(event, error);
+        }
+    }
+
+    private reportError(event: string, error: unknown): void {
+        console.error(`Error in ${this.label} ${event} listener:`, error);
+    }
+}
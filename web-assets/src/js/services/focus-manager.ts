@@ -0,0 +1,176 @@
+/**
+ * Focus Manager
+ * Pauses or throttles the game while the tab is hidden or the window is blurred, and tracks time away
+ */
+
+import {
+    UnityFocusPolicies,
+    UnityFocusPolicy,
+    UnityFocusState,
+    UnityPauseRequest,
+    UnityResumeRequest
+} from '../../types/unity-types';
+
+// UI timers that stop while the game is paused and catch up when it resumes
+export interface SuspendableTimer {
+    suspend(): void;
+    resume(elapsedMs: number): void;
+}
+
+export type FocusChange =
+    | { type: 'pause'; request: UnityPauseRequest }
+    | { type: 'resume'; request: UnityResumeRequest };
+
+type RunMode = 'running' | 'throttled' | 'paused';
+
+export const DEFAULT_FOCUS_POLICIES: UnityFocusPolicies = {
+    hidden: 'pause',
+    blurred: 'throttle'
+};
+
+export const FOCUS_POLICY_LABELS: Record<UnityFocusPolicy, string> = {
+    pause: 'Pause',
+    throttle: 'Slow Down',
+    run: 'Keep Running'
+};
+
+const STORAGE_KEY = 'chaos-world-focus-policies';
+const THROTTLED_FRAMERATE = 10;
+
+const POLICY_MODES: Record<UnityFocusPolicy, RunMode> = {
+    pause: 'paused',
+    throttle: 'throttled',
+    run: 'running'
+};
+
+export class FocusManager {
+    private policies: UnityFocusPolicies;
+    private state: UnityFocusState = 'active';
+    private mode: RunMode = 'running';
+    private awaySince: number = 0;
+    private suspendedSince: number = 0;
+    private lastAwayDuration: number = 0;
+    private timers: SuspendableTimer[] = [];
+    private onChange: (change: FocusChange) => void;
+
+    constructor(onChange: (change: FocusChange) => void) {
+        this.onChange = onChange;
+        this.policies = this.loadPolicies();
+        this.setupEventListeners();
+        this.evaluate();
+    }
+
+    private setupEventListeners(): void {
+        document.addEventListener('visibilitychange', () => this.evaluate());
+        window.addEventListener('blur', () => this.evaluate());
+        window.addEventListener('focus', () => this.evaluate());
+        // Mobile browsers may skip visibilitychange when the page is frozen
+        window.addEventListener('pagehide', () => this.evaluate());
+        window.addEventListener('pageshow', () => this.evaluate());
+    }
+
+    getPolicies(): UnityFocusPolicies {
+        return { ...this.policies };
+    }
+
+    setPolicy(state: keyof UnityFocusPolicies, policy: UnityFocusPolicy): void {
+        this.policies = { ...this.policies, [state]: policy };
+        this.savePolicies();
+        this.evaluate();
+    }
+
+    getState(): UnityFocusState {
+        return this.state;
+    }
+
+    // False while the game is paused or throttled
+    isRunning(): boolean {
+        return this.mode === 'running';
+    }
+
+    // Milliseconds the player was away the last time the game resumed
+    getLastAwayDuration(): number {
+        return this.lastAwayDuration;
+    }
+
+    registerTimer(timer: SuspendableTimer): () => void {
+        this.timers.push(timer);
+        if (this.mode === 'paused') {
+            timer.suspend();
+        }
+        return () => {
+            const index = this.timers.indexOf(timer);
+            if (index > -1) {
+                this.timers.splice(index, 1);
+            }
+        };
+    }
+
+    private detectState(): UnityFocusState {
+        if (document.visibilityState === 'hidden') return 'hidden';
+        return document.hasFocus() ? 'active' : 'blurred';
+    }
+
+    private evaluate(): void {
+        this.state = this.detectState();
+        const mode = this.state === 'active' ? 'running' : POLICY_MODES[this.policies[this.state]];
+        if (mode === this.mode) return;
+
+        const previous = this.mode;
+        const now = Date.now();
+        this.mode = mode;
+
+        if (previous === 'running') {
+            this.awaySince = now;
+        }
+
+        if (mode === 'paused') {
+            this.suspendedSince = now;
+            this.timers.forEach(timer => timer.suspend());
+        } else if (previous === 'paused') {
+            const suspendedFor = now - this.suspendedSince;
+            this.timers.forEach(timer => timer.resume(suspendedFor));
+        }
+
+        if (mode === 'running') {
+            this.lastAwayDuration = now - this.awaySince;
+            console.log(`👀 Game resumed after ${Math.round(this.lastAwayDuration / 1000)}s away`);
+            this.onChange({
+                type: 'resume',
+                request: { elapsedMs: this.lastAwayDuration, mode: previous === 'paused' ? 'pause' : 'throttle' }
+            });
+        } else {
+            console.log(`💤 Game ${mode} (${this.state})`);
+            this.onChange({
+                type: 'pause',
+                request: mode === 'paused'
+                    ? { reason: this.state as UnityPauseRequest['reason'], mode: 'pause' }
+                    : { reason: this.state as UnityPauseRequest['reason'], mode: 'throttle', targetFramerate: THROTTLED_FRAMERATE }
+            });
+        }
+    }
+
+    private loadPolicies(): UnityFocusPolicies {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            if (stored) {
+                const parsed = JSON.parse(stored);
+                return {
+                    hidden: POLICY_MODES[parsed.hidden as UnityFocusPolicy] ? parsed.hidden : DEFAULT_FOCUS_POLICIES.hidden,
+                    blurred: POLICY_MODES[parsed.blurred as UnityFocusPolicy] ? parsed.blurred : DEFAULT_FOCUS_POLICIES.blurred
+                };
+            }
+        } catch (error) {
+            console.warn('Failed to load focus policies:', error);
+        }
+        return { ...DEFAULT_FOCUS_POLICIES };
+    }
+
+    private savePolicies(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.policies));
+        } catch (error) {
+            console.warn('Failed to save focus policies:', error);
+        }
+    }
+}
@@ -0,0 +1,254 @@
+/**
+ * Game Store
+ * Single source of game state; changes go through named actions and reach components through selectors
+ */
+
+import {
+    GameAction,
+    GameActionSource,
+    GameSelector,
+    GameState,
+    GameStateDiff,
+    GameStateEntry,
+    PlayerData
+} from '../../types/game-types';
+import { Unsubscribe } from './event-emitter';
+
+export type ActionListener = (action: GameAction, state: GameState, previous: GameState, source: GameActionSource) => void;
+
+// State changes kept for the debug panel's timeline
+const HISTORY_LIMIT = 200;
+
+interface Subscription<T = any> {
+    selector: GameSelector<T>;
+    listener: (value: T, previous: T) => void;
+    equals: (a: T, b: T) => boolean;
+    value: T;
+}
+
+// Selectors that build a new object each time need this to avoid re-rendering on every change
+export function shallowEqual<T>(a: T, b: T): boolean {
+    if (Object.is(a, b)) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+    const keysA = Object.keys(a) as Array<keyof T>;
+    const keysB = Object.keys(b) as Array<keyof T>;
+    return keysA.length === keysB.length && keysA.every(key => Object.is(a[key], b[key]));
+}
+
+// Returns the original object when the patch changes nothing, so subscribers are not woken up
+function patch<T extends object>(target: T, changes: Partial<T>): T {
+    const changed = (Object.keys(changes) as Array<keyof T>).some(key =>
+        changes[key] !== undefined && !Object.is(target[key], changes[key]));
+    return changed ? { ...target, ...changes } : target;
+}
+
+function withPlayer(state: GameState, changes: Partial<PlayerData>): GameState {
+    const player = patch(state.player, changes);
+    return player === state.player ? state : { ...state, player };
+}
+
+// Cultivation realms from first to last
+export const CULTIVATION_REALMS: readonly string[] = [
+    'Qi Refining', 'Foundation Building', 'Core Formation',
+    'Nascent Soul', 'Spirit Severing', 'Dao Seeking'
+];
+
+// State of a new character before Unity or a save reports anything
+export function createInitialGameState(): GameState {
+    return {
+        player: {
+            level: 1,
+            health: 100,
+            maxHealth: 100,
+            mana: 50,
+            maxMana: 50,
+            experience: 0,
+            cultivationLevel: 1,
+            cultivationProgress: 0,
+            currentRealm: 'Qi Refining',
+            realmLevel: 1
+        },
+        game: {
+            isPaused: false,
+            isInCombat: false,
+            currentScene: 'main'
+        }
+    };
+}
+
+export function gameReducer(state: GameState, action: GameAction): GameState {
+    switch (action.type) {
+        case 'player/statsUpdated':
+            return withPlayer(state, action.stats);
+
+        case 'cultivation/progressed':
+            return withPlayer(state, action.realm && action.realm !== state.player.currentRealm
+                ? { cultivationProgress: action.progress, currentRealm: action.realm, realmLevel: 1 }
+                : { cultivationProgress: action.progress });
+
+        case 'inventory/updated':
+            return { ...state, inventory: action.inventory };
+
+        case 'unity/stateChanged': {
+            const next = withPlayer(state, action.state.player);
+            const game = patch(next.game, action.state.game);
+            const inventory = action.state.inventory || next.inventory;
+            return game === next.game && inventory === next.inventory ? next : { ...next, game, inventory };
+        }
+
+        case 'save/loaded': {
+            // Saved game flags are stale; Unity reports the live ones once it loads the save
+            const next = action.save.player ? withPlayer(state, action.save.player) : state;
+            return action.save.inventory ? { ...next, inventory: action.save.inventory } : next;
+        }
+
+        case 'user/loggedIn':
+            return withPlayer(state, { level: action.level });
+
+        case 'inspector/restored':
+            return action.state;
+
+        default:
+            return state;
+    }
+}
+
+export class GameStore {
+    private state: GameState;
+    private subscriptions: Subscription[] = [];
+    private actionListeners: ActionListener[] = [];
+    private history: GameStateEntry[] = [];
+    private nextEntryId: number = 1;
+
+    constructor(initialState: GameState) {
+        this.state = initialState;
+    }
+
+    // Never mutate the result; dispatch an action instead
+    getState(): GameState {
+        return this.state;
+    }
+
+    dispatch(action: GameAction, source: GameActionSource = 'user'): void {
+        const previous = this.state;
+        const next = gameReducer(previous, action);
+        this.state = next;
+
+        if (next !== previous) {
+            this.record(action, source, next, previous);
+        }
+
+        this.actionListeners.slice().forEach(listener => {
+            this.notify(action.type, () => listener(action, next, previous, source));
+        });
+
+        if (next === previous) return;
+
+        this.subscriptions.slice().forEach(subscription => {
+            const value = subscription.selector(next);
+            if (subscription.equals(subscription.value, value)) return;
+
+            const old = subscription.value;
+            subscription.value = value;
+            this.notify(action.type, () => subscription.listener(value, old));
+        });
+    }
+
+    // Calls back immediately with the current slice, then whenever the slice changes
+    subscribe<T>(
+        selector: GameSelector<T>,
+        listener: (value: T, previous: T) => void,
+        equals: (a: T, b: T) => boolean = Object.is
+    ): Unsubscribe {
+        const subscription: Subscription<T> = { selector, listener, equals, value: selector(this.state) };
+        this.subscriptions.push(subscription);
+        this.notify('subscribe', () => listener(subscription.value, subscription.value));
+
+        return () => {
+            const index = this.subscriptions.indexOf(subscription);
+            if (index > -1) {
+                this.subscriptions.splice(index, 1);
+            }
+        };
+    }
+
+    // Sees every dispatched action, including ones that change nothing
+    onAction(listener: ActionListener): Unsubscribe {
+        this.actionListeners.push(listener);
+        return () => {
+            const index = this.actionListeners.indexOf(listener);
+            if (index > -1) {
+                this.actionListeners.splice(index, 1);
+            }
+        };
+    }
+
+    // Oldest first; only actions that changed the state are recorded
+    getHistory(): GameStateEntry[] {
+        return this.history.slice();
+    }
+
+    // Puts the state back to how it was right after the entry, for reproducing a UI state
+    restore(entryId: number): boolean {
+        const entry = this.history.find(candidate => candidate.id === entryId);
+        if (!entry) return false;
+
+        this.dispatch({ type: 'inspector/restored', state: entry.state, entryId }, 'inspector');
+        return true;
+    }
+
+    private record(action: GameAction, source: GameActionSource, state: GameState, previous: GameState): void {
+        this.history.push({ id: this.nextEntryId++, time: Date.now(), action, source, state, previous });
+        if (this.history.length > HISTORY_LIMIT) {
+            this.history.shift();
+        }
+    }
+
+    private notify(action: string, call: () => void): void {
+        try {
+            call();
+        } catch (error) {
+            console.error(`Error in game store subscriber (${action}):`, error);
+        }
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+// Leaf-level differences between two states; states are immutable, so shared references are skipped
+export function diffGameStates(before: unknown, after: unknown, path: string = ''): GameStateDiff[] {
+    if (Object.is(before, after)) return [];
+
+    if (!isPlainObject(before) || !isPlainObject(after) || Array.isArray(before) !== Array.isArray(after)) {
+        return [{ path: path || '(root)', before, after }];
+    }
+
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return keys.reduce<GameStateDiff[]>((diffs, key) => {
+        return diffs.concat(diffGameStates(before[key], after[key], path ? `${path}.${key}` : key));
+    }, []);
+}
+
+// Selectors
+export const selectPlayer: GameSelector<PlayerData> = state => state.player;
+export const selectGame: GameSelector<GameState['game']> = state => state.game;
+export const selectInventory: GameSelector<GameState['inventory']> = state => state.inventory;
+
+export const selectCharacterStats = (state: GameState) => ({
+    level: state.player.level,
+    health: state.player.health,
+    maxHealth: state.player.maxHealth,
+    mana: state.player.mana,
+    maxMana: state.player.maxMana,
+    experience: state.player.experience,
+    cultivationLevel: state.player.cultivationLevel
+});
+
+export const selectCultivation = (state: GameState) => ({
+    currentRealm: state.player.currentRealm,
+    realmLevel: state.player.realmLevel,
+    cultivationProgress: state.player.cultivationProgress
+});
@@ -0,0 +1,121 @@
+/**
+ * HMAC-SHA256
+ * Synchronous HMAC for signing saves; WebCrypto only signs asynchronously, which beforeunload and page-hidden saves cannot wait for
+ */
+
+const BLOCK_SIZE = 64;
+
+const ROUND_CONSTANTS = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const INITIAL_HASH = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+// TextEncoder is missing from some test environments, and save JSON is all this ever encodes
+function encodeUtf8(text: string): Uint8Array {
+    const bytes: number[] = [];
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        if (code < 0x80) {
+            bytes.push(code);
+        } else if (code < 0x800) {
+            bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+        } else if (code < 0x10000) {
+            bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        } else {
+            bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+function rotateRight(value: number, bits: number): number {
+    return (value >>> bits) | (value << (32 - bits));
+}
+
+function sha256(message: Uint8Array): Uint8Array {
+    // Padding: a 1 bit, zeros, then the message length in bits as a 64-bit big-endian number
+    const padded = new Uint8Array(Math.ceil((message.length + 9) / BLOCK_SIZE) * BLOCK_SIZE);
+    padded.set(message);
+    padded[message.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(padded.length - 8, Math.floor(message.length / 0x20000000));
+    view.setUint32(padded.length - 4, (message.length * 8) >>> 0);
+
+    const hash = new Uint32Array(INITIAL_HASH);
+    const words = new Uint32Array(64);
+
+    for (let offset = 0; offset < padded.length; offset += BLOCK_SIZE) {
+        for (let i = 0; i < 16; i++) {
+            words[i] = view.getUint32(offset + i * 4);
+        }
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotateRight(words[i - 15], 7) ^ rotateRight(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+            const s1 = rotateRight(words[i - 2], 17) ^ rotateRight(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+            words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+        }
+
+        let a = hash[0], b = hash[1], c = hash[2], d = hash[3];
+        let e = hash[4], f = hash[5], g = hash[6], h = hash[7];
+        for (let i = 0; i < 64; i++) {
+            const t1 = (h + (rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25)) + ((e & f) ^ (~e & g))
+                + ROUND_CONSTANTS[i] + words[i]) | 0;
+            const t2 = ((rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + t2) | 0;
+        }
+
+        // Uint32Array wraps the sums to 32 bits
+        hash[0] += a;
+        hash[1] += b;
+        hash[2] += c;
+        hash[3] += d;
+        hash[4] += e;
+        hash[5] += f;
+        hash[6] += g;
+        hash[7] += h;
+    }
+
+    const digest = new Uint8Array(32);
+    const digestView = new DataView(digest.buffer);
+    hash.forEach((word, i) => digestView.setUint32(i * 4, word));
+    return digest;
+}
+
+function concat(first: Uint8Array, second: Uint8Array): Uint8Array {
+    const bytes = new Uint8Array(first.length + second.length);
+    bytes.set(first);
+    bytes.set(second, first.length);
+    return bytes;
+}
+
+// Hex-encoded HMAC-SHA256 of the UTF-8 bytes of message
+export function hmacSha256(key: string, message: string): string {
+    let keyBytes = encodeUtf8(key);
+    if (keyBytes.length > BLOCK_SIZE) {
+        keyBytes = sha256(keyBytes);
+    }
+
+    const innerPad = new Uint8Array(BLOCK_SIZE);
+    const outerPad = new Uint8Array(BLOCK_SIZE);
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+        innerPad[i] = (keyBytes[i] || 0) ^ 0x36;
+        outerPad[i] = (keyBytes[i] || 0) ^ 0x5c;
+    }
+
+    const digest = sha256(concat(outerPad, sha256(concat(innerPad, encodeUtf8(message)))));
+    return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
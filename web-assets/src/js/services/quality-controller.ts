@@ -0,0 +1,263 @@
+/**
+ * Quality Controller
+ * Resolves graphics presets and overrides, and adapts render quality to the frame rate
+ */
+
+import {
+    UnityPerformance,
+    UnityQualityPreferences,
+    UnityQualityPreset,
+    UnityQualityRequest,
+    UnityQualitySettings
+} from '../../types/unity-types';
+
+// Medium matches the build-time qualitySettings in config/unity-config.json
+export const QUALITY_PRESETS: Record<UnityQualityPreset, UnityQualitySettings> = {
+    low: {
+        pixelLightCount: 0,
+        textureQuality: 0.25,
+        anisotropicFiltering: 0,
+        antiAliasing: 0,
+        softVegetation: false,
+        realtimeReflectionProbes: false,
+        billboardsFaceCameraPosition: false,
+        vSyncCount: 0,
+        lodBias: 0.5,
+        maximumLODLevel: 1,
+        particleRaycastBudget: 64,
+        asyncUploadTimeSlice: 2,
+        asyncUploadBufferSize: 16,
+        asyncUploadPersistentBuffer: true,
+        resolutionScalingFixedDPIFactor: 1.0,
+        renderScale: 0.75
+    },
+    medium: {
+        pixelLightCount: 1,
+        textureQuality: 0.5,
+        anisotropicFiltering: 0,
+        antiAliasing: 0,
+        softVegetation: false,
+        realtimeReflectionProbes: false,
+        billboardsFaceCameraPosition: false,
+        vSyncCount: 0,
+        lodBias: 1.0,
+        maximumLODLevel: 0,
+        particleRaycastBudget: 256,
+        asyncUploadTimeSlice: 2,
+        asyncUploadBufferSize: 16,
+        asyncUploadPersistentBuffer: true,
+        resolutionScalingFixedDPIFactor: 1.0,
+        renderScale: 1.0
+    },
+    high: {
+        pixelLightCount: 2,
+        textureQuality: 1.0,
+        anisotropicFiltering: 1,
+        antiAliasing: 2,
+        softVegetation: true,
+        realtimeReflectionProbes: false,
+        billboardsFaceCameraPosition: true,
+        vSyncCount: 1,
+        lodBias: 1.5,
+        maximumLODLevel: 0,
+        particleRaycastBudget: 1024,
+        asyncUploadTimeSlice: 2,
+        asyncUploadBufferSize: 32,
+        asyncUploadPersistentBuffer: true,
+        resolutionScalingFixedDPIFactor: 1.0,
+        renderScale: 1.0
+    },
+    ultra: {
+        pixelLightCount: 4,
+        textureQuality: 1.0,
+        anisotropicFiltering: 2,
+        antiAliasing: 4,
+        softVegetation: true,
+        realtimeReflectionProbes: true,
+        billboardsFaceCameraPosition: true,
+        vSyncCount: 1,
+        lodBias: 2.0,
+        maximumLODLevel: 0,
+        particleRaycastBudget: 4096,
+        asyncUploadTimeSlice: 2,
+        asyncUploadBufferSize: 64,
+        asyncUploadPersistentBuffer: true,
+        resolutionScalingFixedDPIFactor: 1.0,
+        renderScale: 1.0
+    }
+};
+
+// Each step caps the player's settings further; render scale goes first since it costs the least to look at
+export const ADAPTIVE_STEPS: Partial<UnityQualitySettings>[] = [
+    {},
+    { renderScale: 0.85 },
+    { renderScale: 0.85, antiAliasing: 0, softVegetation: false, realtimeReflectionProbes: false },
+    { renderScale: 0.7, antiAliasing: 0, softVegetation: false, realtimeReflectionProbes: false, pixelLightCount: 0 },
+    { renderScale: 0.55, antiAliasing: 0, softVegetation: false, realtimeReflectionProbes: false, pixelLightCount: 0, lodBias: 0.5 }
+];
+
+type NumericQualityKey = {
+    [K in keyof UnityQualitySettings]: UnityQualitySettings[K] extends number ? K : never
+}[keyof UnityQualitySettings];
+
+function isNumericSetting(settings: UnityQualitySettings, key: keyof UnityQualitySettings): key is NumericQualityKey {
+    return typeof settings[key] === 'number';
+}
+
+const STORAGE_KEY = 'chaos-world-quality';
+const SAMPLE_WINDOW = 5;
+const STEP_DOWN_COOLDOWN = 10000;
+// Stepping back up waits longer so quality does not oscillate
+const STEP_UP_COOLDOWN = 30000;
+const STEP_UP_HEADROOM = 1.4;
+const STEP_DOWN_MARGIN = 0.9;
+
+const DEFAULT_PREFERENCES: UnityQualityPreferences = {
+    preset: 'medium',
+    overrides: {},
+    adaptive: false
+};
+
+export class QualityController {
+    private preferences: UnityQualityPreferences;
+    private adaptiveStep: number = 0;
+    private fpsSamples: number[] = [];
+    private lastStepAt: number = 0;
+    private targetFps: number;
+    private onApply: (request: UnityQualityRequest) => void;
+
+    constructor(onApply: (request: UnityQualityRequest) => void, targetFps: number = 30) {
+        this.onApply = onApply;
+        this.targetFps = targetFps;
+        this.preferences = this.loadPreferences();
+    }
+
+    getPreferences(): UnityQualityPreferences {
+        return { ...this.preferences, overrides: { ...this.preferences.overrides } };
+    }
+
+    getAdaptiveStep(): number {
+        return this.adaptiveStep;
+    }
+
+    setPreset(preset: UnityQualityPreset): void {
+        // Picking a preset discards individual tweaks made on top of the previous one
+        this.preferences = { ...this.preferences, preset, overrides: {} };
+        this.commit();
+    }
+
+    setOverride<K extends keyof UnityQualitySettings>(key: K, value: UnityQualitySettings[K]): void {
+        const overrides = { ...this.preferences.overrides };
+        if (QUALITY_PRESETS[this.preferences.preset][key] === value) {
+            delete overrides[key];
+        } else {
+            overrides[key] = value;
+        }
+        this.preferences = { ...this.preferences, overrides };
+        this.commit();
+    }
+
+    setAdaptive(enabled: boolean): void {
+        this.preferences = { ...this.preferences, adaptive: enabled };
+        if (!enabled) {
+            this.adaptiveStep = 0;
+        }
+        this.fpsSamples = [];
+        this.commit();
+    }
+
+    setTargetFps(targetFps: number): void {
+        this.targetFps = targetFps;
+        this.fpsSamples = [];
+    }
+
+    // Settings chosen by the player, before adaptive capping
+    getSelectedSettings(): UnityQualitySettings {
+        return { ...QUALITY_PRESETS[this.preferences.preset], ...this.preferences.overrides };
+    }
+
+    getEffectiveSettings(): UnityQualitySettings {
+        const settings = this.getSelectedSettings();
+        const caps = ADAPTIVE_STEPS[this.adaptiveStep];
+
+        // Adaptive steps only ever lower quality below what the player picked
+        (Object.keys(caps) as Array<keyof UnityQualitySettings>).forEach(key => {
+            if (isNumericSetting(settings, key)) {
+                const cap = caps[key];
+                if (cap !== undefined) settings[key] = Math.min(settings[key], cap);
+            } else {
+                settings[key] = settings[key] && caps[key] !== false;
+            }
+        });
+
+        return settings;
+    }
+
+    apply(): void {
+        this.onApply({
+            preset: Object.keys(this.preferences.overrides).length > 0 ? 'custom' : this.preferences.preset,
+            settings: this.getEffectiveSettings(),
+            adaptiveStep: this.adaptiveStep
+        });
+    }
+
+    addSample(sample: UnityPerformance): void {
+        if (!this.preferences.adaptive) return;
+
+        this.fpsSamples.push(sample.fps);
+        if (this.fpsSamples.length > SAMPLE_WINDOW) {
+            this.fpsSamples.shift();
+        }
+        if (this.fpsSamples.length < SAMPLE_WINDOW) return;
+
+        const average = this.fpsSamples.reduce((total, fps) => total + fps, 0) / this.fpsSamples.length;
+        const sinceLastStep = Date.now() - this.lastStepAt;
+
+        if (average < this.targetFps * STEP_DOWN_MARGIN
+            && this.adaptiveStep < ADAPTIVE_STEPS.length - 1
+            && sinceLastStep >= STEP_DOWN_COOLDOWN) {
+            this.stepTo(this.adaptiveStep + 1, average);
+        } else if (average > this.targetFps * STEP_UP_HEADROOM
+            && this.adaptiveStep > 0
+            && sinceLastStep >= STEP_UP_COOLDOWN) {
+            this.stepTo(this.adaptiveStep - 1, average);
+        }
+    }
+
+    private stepTo(step: number, averageFps: number): void {
+        console.log(`🎮 Adaptive quality step ${this.adaptiveStep} -> ${step} (${averageFps.toFixed(1)} FPS)`);
+        this.adaptiveStep = step;
+        this.lastStepAt = Date.now();
+        // Samples taken at the old quality say nothing about the new one
+        this.fpsSamples = [];
+        this.apply();
+    }
+
+    private commit(): void {
+        this.savePreferences();
+        this.apply();
+    }
+
+    private loadPreferences(): UnityQualityPreferences {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            if (stored) {
+                const parsed = JSON.parse(stored);
+                if (parsed && QUALITY_PRESETS[parsed.preset as UnityQualityPreset]) {
+                    return { ...DEFAULT_PREFERENCES, ...parsed };
+                }
+            }
+        } catch (error) {
+            console.warn('Failed to load quality settings:', error);
+        }
+        return { ...DEFAULT_PREFERENCES, overrides: {} };
+    }
+
+    private savePreferences(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.preferences));
+        } catch (error) {
+            console.warn('Failed to save quality settings:', error);
+        }
+    }
+}
@@ -0,0 +1,160 @@
+/**
+ * Save Format
+ * Versioned save envelope and the chain of migrations that brings older saves up to the current GameState
+ */
+
+import { GameState, SaveEnvelope, SaveSummary } from '../../types/game-types';
+import { SAVE_STATE_SCHEMA, validatePayload } from '../bridge/payload-schemas';
+import { createInitialGameState } from './game-store';
+
+// Bump together with a new entry in SAVE_MIGRATIONS whenever GameState or InventoryData changes shape
+export const SAVE_FORMAT_VERSION = 3;
+
+const DEVICE_ID_KEY = 'chaos-world-device-id';
+const UNKNOWN_DEVICE = 'unknown';
+
+export type SaveFormatErrorCode = 'FUTURE_VERSION' | 'INVALID' | 'TAMPERED';
+
+export class SaveFormatError extends Error {
+    public code: SaveFormatErrorCode;
+
+    constructor(code: SaveFormatErrorCode, message: string) {
+        super(message);
+        this.name = 'SaveFormatError';
+        this.code = code;
+    }
+}
+
+// Upgrades the state of a save one version; keyed by the version it upgrades from
+type SaveMigration = (state: any) => any;
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Older inventories may lack the weight and stacking fields
+function migrateInventory(inventory: Record<string, any>): Record<string, any> {
+    const items = (Array.isArray(inventory.items) ? inventory.items : []).map((item: Record<string, any>) => ({
+        quantity: 1,
+        weight: 0,
+        stackable: false,
+        ...item
+    }));
+    return {
+        maxSlots: 0,
+        maxWeight: 0,
+        ...inventory,
+        items,
+        totalWeight: typeof inventory.totalWeight === 'number'
+            ? inventory.totalWeight
+            : items.reduce((total: number, item: { weight: number; quantity: number }) => total + item.weight * item.quantity, 0)
+    };
+}
+
+const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+    // Version 1: bare GameState without an envelope, written by builds that only spread it back in,
+    // so any field added since may be missing
+    1: state => {
+        const defaults = createInitialGameState();
+        const saved = isObject(state) ? state : {};
+        return {
+            player: { ...defaults.player, ...(isObject(saved.player) ? saved.player : {}) },
+            game: { ...defaults.game, ...(isObject(saved.game) ? saved.game : {}) },
+            inventory: isObject(saved.inventory) ? migrateInventory(saved.inventory) : undefined
+        };
+    },
+    // Version 3 only adds the signature to the envelope; the state is unchanged
+    2: state => state
+};
+
+// Random per-browser id, so a save can tell which device wrote it
+export function getDeviceId(): string {
+    try {
+        let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+        if (!deviceId) {
+            deviceId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+            localStorage.setItem(DEVICE_ID_KEY, deviceId);
+        }
+        return deviceId;
+    } catch (error) {
+        console.warn('Failed to read device id:', error);
+        return UNKNOWN_DEVICE;
+    }
+}
+
+export function summarizeSave(state: GameState, playtime: number): SaveSummary {
+    return {
+        realm: state.player.currentRealm,
+        realmLevel: state.player.realmLevel,
+        level: state.player.level,
+        experience: state.player.experience,
+        playtime
+    };
+}
+
+export function createSaveEnvelope(state: GameState, playtime: number): SaveEnvelope {
+    return {
+        version: SAVE_FORMAT_VERSION,
+        savedAt: Date.now(),
+        deviceId: getDeviceId(),
+        summary: summarizeSave(state, playtime),
+        state
+    };
+}
+
+function isEnvelope(value: unknown): value is { version: number; state: unknown } & Record<string, unknown> {
+    return isObject(value) && typeof value.version === 'number' && 'state' in value;
+}
+
+// Accepts any save ever written; throws SaveFormatError for saves from newer builds or that fail validation.
+// Saves written before the stamps get an unknown device and time 0
+// A bare GameState is format 1
+export function readSaveVersion(data: unknown): number {
+    return isEnvelope(data) ? data.version : 1;
+}
+
+export function readSaveEnvelope(data: unknown): SaveEnvelope {
+    const version = readSaveVersion(data);
+    let state = isEnvelope(data) ? data.state : data;
+
+    if (version > SAVE_FORMAT_VERSION) {
+        throw new SaveFormatError('FUTURE_VERSION',
+            `This save was made by a newer version of the game (save format ${version}, this version reads up to ${SAVE_FORMAT_VERSION}). Update the game to load it.`);
+    }
+    if (!Number.isInteger(version) || version < 1) {
+        throw new SaveFormatError('INVALID', `Unknown save format version ${version}`);
+    }
+
+    for (let from = version; from < SAVE_FORMAT_VERSION; from++) {
+        const migrate = SAVE_MIGRATIONS[from];
+        if (!migrate) {
+            throw new SaveFormatError('INVALID', `No migration from save format ${from}`);
+        }
+        state = migrate(state);
+    }
+
+    const issue = validatePayload(state, SAVE_STATE_SCHEMA);
+    if (issue) {
+        throw new SaveFormatError('INVALID',
+            `The save is damaged: ${issue.path} should be ${issue.expected} but is ${issue.received}`);
+    }
+
+    // The summary is rebuilt from the migrated state; only playtime cannot be derived from it
+    const stamps: Record<string, unknown> = isEnvelope(data) ? data : {};
+    const summary: Partial<SaveSummary> = isObject(stamps.summary) ? stamps.summary : {};
+    return {
+        version: SAVE_FORMAT_VERSION,
+        savedAt: typeof stamps.savedAt === 'number' ? stamps.savedAt : 0,
+        deviceId: typeof stamps.deviceId === 'string' ? stamps.deviceId : UNKNOWN_DEVICE,
+        summary: summarizeSave(state as GameState, typeof summary.playtime === 'number' ? summary.playtime : 0),
+        state: state as GameState
+    };
+}
+
+export function parseSaveData(json: string): unknown {
+    try {
+        return JSON.parse(json);
+    } catch (error) {
+        throw new SaveFormatError('INVALID', 'The save is damaged and could not be read');
+    }
+}
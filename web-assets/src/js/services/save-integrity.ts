@@ -0,0 +1,66 @@
+/**
+ * Save Integrity
+ * Signs saves with an HMAC and refuses saves that were edited outside the game
+ */
+
+import { SaveEnvelope } from '../../types/game-types';
+import { SAVE_FORMAT_VERSION, SaveFormatError, readSaveEnvelope, readSaveVersion } from './save-format';
+import { hmacSha256 } from './hmac-sha256';
+import { apiService } from './api-service';
+
+// The key ships with the game, so this catches edited saves, not a determined cheater;
+// leaderboards still have to check progress on the server. Override with SAVE_SIGNING_KEY at build time
+const DEFAULT_SIGNING_KEY = 'chaos-world-save-integrity';
+
+// Saves were first signed in format 3; older ones never had a signature to check
+const SIGNED_SINCE_VERSION = 3;
+
+export type SaveIntegrity = 'valid' | 'unsigned' | 'tampered';
+
+function computeSignature(payload: string): string {
+    const env = (typeof process !== 'undefined' && process.env) || {};
+    return hmacSha256(env.SAVE_SIGNING_KEY || DEFAULT_SIGNING_KEY, payload);
+}
+
+// The signature covers the envelope exactly as serialized, so it is the last field added
+export function signSave(envelope: SaveEnvelope): SaveEnvelope {
+    const { signature: _previous, ...unsigned } = envelope;
+    return { ...unsigned, signature: computeSignature(JSON.stringify(unsigned)) };
+}
+
+export function verifySave(data: unknown): SaveIntegrity {
+    if (typeof data !== 'object' || data === null) return 'unsigned';
+
+    const { signature, ...unsigned } = data as Record<string, unknown>;
+    if (typeof signature !== 'string') return 'unsigned';
+    return computeSignature(JSON.stringify(unsigned)) === signature ? 'valid' : 'tampered';
+}
+
+// Verifies, then migrates and validates; a tampered save is reported and never returned.
+// An unsigned save from before format 3 is migrated and comes back signed, so whoever stores it next keeps it signed;
+// from format 3 on a missing signature means the save was edited.
+// source names where the save came from in the telemetry report, e.g. a slot id or steam-cloud
+export function openSave(data: unknown, source: string): SaveEnvelope {
+    const integrity = verifySave(data);
+
+    if (integrity === 'unsigned' && readSaveVersion(data) < SIGNED_SINCE_VERSION) {
+        console.log(`🔏 Signing the save from ${source}, which predates signing`);
+        return signSave(readSaveEnvelope(data));
+    }
+
+    if (integrity !== 'valid') {
+        const stamps = (typeof data === 'object' && data !== null ? data : {}) as Partial<SaveEnvelope>;
+        console.warn(`🚩 Save from ${source} failed its integrity check`);
+        apiService.reportTelemetry('save_tampered', {
+            source,
+            integrity,
+            version: stamps.version || null,
+            savedAt: stamps.savedAt || null,
+            deviceId: stamps.deviceId || null,
+            currentVersion: SAVE_FORMAT_VERSION
+        });
+        throw new SaveFormatError('TAMPERED', 'This save was changed outside the game, so it was not loaded.');
+    }
+
+    return readSaveEnvelope(data);
+}
@@ -0,0 +1,211 @@
+/**
+ * Save Slots
+ * Named local save slots with metadata and thumbnails, plus one auto-save slot that does not count against the limit
+ */
+
+import { GameState, SaveEnvelope, SaveSlotInfo, SaveSlotRecord } from '../../types/game-types';
+import { createSaveEnvelope, parseSaveData, readSaveEnvelope } from './save-format';
+import { openSave, signSave, verifySave } from './save-integrity';
+
+// Matches cloudSaves.maxSaves in config/steam-config.json
+export const DEFAULT_MAX_SLOTS = 10;
+export const AUTO_SAVE_SLOT_ID = 'autosave';
+
+const INDEX_KEY = 'chaos-world-save-slots';
+const SLOT_KEY_PREFIX = 'chaos-world-save-slot-';
+// Single save written before slots existed; imported once as the auto-save
+const LEGACY_SAVE_KEY = 'chaos-world-save';
+
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_HEIGHT = 90;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Unity's WebGL canvas only reads back while it keeps its drawing buffer; otherwise the thumbnail comes out blank
+export function captureThumbnail(canvas: HTMLCanvasElement | null): string | undefined {
+    if (!canvas || canvas.width === 0 || canvas.height === 0) return undefined;
+
+    try {
+        const thumbnail = document.createElement('canvas');
+        thumbnail.width = THUMBNAIL_WIDTH;
+        thumbnail.height = THUMBNAIL_HEIGHT;
+        const context = thumbnail.getContext('2d');
+        if (!context) return undefined;
+
+        context.drawImage(canvas, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+        return thumbnail.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+    } catch (error) {
+        console.warn('Failed to capture save thumbnail:', error);
+        return undefined;
+    }
+}
+
+export function formatPlaytime(milliseconds: number): string {
+    const minutes = Math.floor(milliseconds / 60000);
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+export class SaveSlotManager {
+    private maxSlots: number;
+    private slots: SaveSlotInfo[];
+    private playtimeBase: number = 0;
+    private sessionStartedAt: number = Date.now();
+
+    constructor(maxSlots: number = DEFAULT_MAX_SLOTS) {
+        this.maxSlots = maxSlots;
+        this.slots = this.loadIndex();
+        this.importLegacySave();
+    }
+
+    // Auto-save first, then newest first
+    list(): SaveSlotInfo[] {
+        return this.slots.slice().sort((a, b) => {
+            if (a.autoSave !== b.autoSave) return a.autoSave ? -1 : 1;
+            return b.metadata.savedAt - a.metadata.savedAt;
+        });
+    }
+
+    get(id: string): SaveSlotInfo | null {
+        return this.slots.find(slot => slot.id === id) || null;
+    }
+
+    getMaxSlots(): number {
+        return this.maxSlots;
+    }
+
+    canCreate(): boolean {
+        return this.slots.filter(slot => !slot.autoSave).length < this.maxSlots;
+    }
+
+    // Playtime keeps counting from the loaded save; throws SaveFormatError when the save cannot be read or was edited
+    load(id: string): SaveSlotRecord | null {
+        const info = this.get(id);
+        const envelope = this.loadEnvelope(id);
+        if (!info || !envelope) {
+            console.warn(`Save slot ${id} has no data`);
+            return null;
+        }
+
+        this.continuePlaytime(info.metadata.playtime);
+        return { ...info, state: envelope.state };
+    }
+
+    // Reads a slot with its stamps without touching playtime, e.g. to compare it with the cloud save
+    loadEnvelope(id: string): SaveEnvelope | null {
+        const stored = this.get(id) ? localStorage.getItem(SLOT_KEY_PREFIX + id) : null;
+        if (!stored) return null;
+
+        const data = parseSaveData(stored);
+        const envelope = openSave(data, `slot:${id}`);
+        if (verifySave(data) === 'unsigned') {
+            // Written back signed, so the slot is checked like any other from now on
+            try {
+                localStorage.setItem(SLOT_KEY_PREFIX + id, JSON.stringify(envelope));
+            } catch (error) {
+                console.warn(`Failed to re-sign save slot ${id}:`, error);
+            }
+        }
+        return envelope;
+    }
+
+    // Without an id a new slot is created; throws when the slot limit is reached or storage is full
+    save(state: GameState, options: { id?: string; name: string; thumbnail?: string }): SaveSlotInfo {
+        const existing = options.id ? this.get(options.id) : null;
+        if (!existing && !this.canCreate()) {
+            throw new Error(`All ${this.maxSlots} save slots are in use. Overwrite or delete one first.`);
+        }
+
+        return this.write(state, {
+            id: existing ? existing.id : this.createId(),
+            name: options.name,
+            autoSave: false,
+            thumbnail: options.thumbnail
+        });
+    }
+
+    saveAuto(state: GameState, thumbnail?: string): SaveSlotInfo {
+        return this.write(state, { id: AUTO_SAVE_SLOT_ID, name: 'Auto-Save', autoSave: true, thumbnail });
+    }
+
+    remove(id: string): void {
+        this.slots = this.slots.filter(slot => slot.id !== id);
+        try {
+            localStorage.removeItem(SLOT_KEY_PREFIX + id);
+        } catch (error) {
+            console.warn(`Failed to remove save slot ${id}:`, error);
+        }
+        this.saveIndex();
+    }
+
+    getPlaytime(): number {
+        return this.playtimeBase + Date.now() - this.sessionStartedAt;
+    }
+
+    // Counts on from a save loaded from somewhere else, e.g. Steam Cloud
+    continuePlaytime(playtime: number): void {
+        this.playtimeBase = playtime;
+        this.sessionStartedAt = Date.now();
+    }
+
+    // Synchronous all the way to localStorage, so saves from beforeunload and page-hidden land before the page goes away
+    private write(state: GameState, slot: Omit<SaveSlotInfo, 'metadata'>): SaveSlotInfo {
+        const envelope = signSave(createSaveEnvelope(state, this.getPlaytime()));
+        const info: SaveSlotInfo = {
+            ...slot,
+            metadata: {
+                realm: envelope.summary.realm,
+                level: envelope.summary.level,
+                playtime: envelope.summary.playtime,
+                savedAt: envelope.savedAt
+            }
+        };
+
+        // Data first, so a full storage never leaves an index entry without data
+        localStorage.setItem(SLOT_KEY_PREFIX + info.id, JSON.stringify(envelope));
+        this.slots = this.slots.filter(existing => existing.id !== info.id).concat(info);
+        this.saveIndex();
+
+        console.log(`💾 Saved ${info.autoSave ? 'auto-save' : `slot "${info.name}"`}`);
+        return info;
+    }
+
+    private createId(): string {
+        return `slot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    }
+
+    private loadIndex(): SaveSlotInfo[] {
+        try {
+            const stored = localStorage.getItem(INDEX_KEY);
+            if (stored) {
+                const parsed = JSON.parse(stored);
+                return Array.isArray(parsed) ? parsed : [];
+            }
+        } catch (error) {
+            console.warn('Failed to load save slots:', error);
+        }
+        return [];
+    }
+
+    private saveIndex(): void {
+        try {
+            localStorage.setItem(INDEX_KEY, JSON.stringify(this.slots));
+        } catch (error) {
+            console.error('Failed to save save slot index:', error);
+        }
+    }
+
+    // The save from before slots existed; the auto-save slot stores it signed
+    private importLegacySave(): void {
+        try {
+            const legacy = localStorage.getItem(LEGACY_SAVE_KEY);
+            if (!legacy) return;
+
+            if (!this.get(AUTO_SAVE_SLOT_ID)) {
+                this.saveAuto(readSaveEnvelope(parseSaveData(legacy)).state);
+            }
+            localStorage.removeItem(LEGACY_SAVE_KEY);
+        } catch (error) {
+            console.warn('Failed to import legacy save:', error);
+        }
+    }
+}
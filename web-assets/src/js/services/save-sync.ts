@@ -0,0 +1,135 @@
+/**
+ * Save Sync
+ * Decides between the local auto-save and the Steam Cloud save when both changed since they were last in sync
+ */
+
+import { SaveComparison, SaveConflictRule, SaveConflictSide, SaveEnvelope, SaveSummary } from '../../types/game-types';
+import { CULTIVATION_REALMS } from './game-store';
+
+// The player's answer from the conflict dialog, and optionally a rule for next time
+export interface SaveConflictDecision {
+    keep: SaveConflictSide;
+    rule: SaveConflictRule;
+}
+
+export type SaveSyncResult = SaveConflictSide | 'same';
+
+export const SAVE_CONFLICT_RULE_LABELS: Record<SaveConflictRule, string> = {
+    ask: 'Ask Me',
+    newest: 'Keep the Newest Save',
+    'most-progress': 'Keep the Most Progress'
+};
+
+const STORAGE_KEY = 'chaos-world-save-sync';
+
+interface SyncRecord {
+    rule: SaveConflictRule;
+    // savedAt of the last save both sides agreed on
+    lastSyncedAt: number;
+}
+
+function progressRank(summary: SaveSummary): number[] {
+    return [CULTIVATION_REALMS.indexOf(summary.realm), summary.realmLevel, summary.level, summary.experience];
+}
+
+function pick(local: number[], cloud: number[]): SaveConflictSide | null {
+    for (let i = 0; i < local.length; i++) {
+        if (local[i] !== cloud[i]) return local[i] > cloud[i] ? 'local' : 'cloud';
+    }
+    return null;
+}
+
+export function compareSaves(local: SaveEnvelope, cloud: SaveEnvelope): SaveComparison {
+    return {
+        local,
+        cloud,
+        newer: pick([local.savedAt], [cloud.savedAt]),
+        moreProgress: pick(progressRank(local.summary), progressRank(cloud.summary))
+    };
+}
+
+type AskPlayer = (comparison: SaveComparison, rule: SaveConflictRule) => Promise<SaveConflictDecision>;
+
+export class SaveSync {
+    private ask: AskPlayer;
+    private record: SyncRecord;
+
+    constructor(ask: AskPlayer) {
+        this.ask = ask;
+        this.record = this.loadRecord();
+    }
+
+    getRule(): SaveConflictRule {
+        return this.record.rule;
+    }
+
+    setRule(rule: SaveConflictRule): void {
+        this.record = { ...this.record, rule };
+        this.saveRecord();
+    }
+
+    // Call after a save reached both sides
+    markSynced(savedAt: number): void {
+        this.record = { ...this.record, lastSyncedAt: savedAt };
+        this.saveRecord();
+    }
+
+    // Only a side that changed since the last sync can win without asking
+    async resolve(local: SaveEnvelope | null, cloud: SaveEnvelope): Promise<SaveSyncResult> {
+        if (!local) return 'cloud';
+        if (local.savedAt === cloud.savedAt && local.deviceId === cloud.deviceId) return 'same';
+
+        // Before the first sync neither side is known to be unchanged
+        const { lastSyncedAt } = this.record;
+        if (lastSyncedAt > 0 && cloud.savedAt <= lastSyncedAt) return 'local';
+        if (lastSyncedAt > 0 && local.savedAt <= lastSyncedAt) return 'cloud';
+
+        const comparison = compareSaves(local, cloud);
+        console.log('☁️ Local and cloud saves diverged:', comparison);
+
+        const automatic = this.applyRule(comparison);
+        if (automatic) return automatic;
+
+        const decision = await this.ask(comparison, this.record.rule);
+        if (decision.rule !== this.record.rule) {
+            this.setRule(decision.rule);
+        }
+        return decision.keep;
+    }
+
+    // Falls back to asking when the rule cannot tell the saves apart
+    private applyRule(comparison: SaveComparison): SaveConflictSide | null {
+        switch (this.record.rule) {
+            case 'newest':
+                return comparison.newer;
+            case 'most-progress':
+                return comparison.moreProgress || comparison.newer;
+            default:
+                return null;
+        }
+    }
+
+    private loadRecord(): SyncRecord {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            if (stored) {
+                const parsed = JSON.parse(stored);
+                return {
+                    rule: SAVE_CONFLICT_RULE_LABELS[parsed.rule as SaveConflictRule] ? parsed.rule : 'ask',
+                    lastSyncedAt: typeof parsed.lastSyncedAt === 'number' ? parsed.lastSyncedAt : 0
+                };
+            }
+        } catch (error) {
+            console.warn('Failed to load save sync state:', error);
+        }
+        return { rule: 'ask', lastSyncedAt: 0 };
+    }
+
+    private saveRecord(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.record));
+        } catch (error) {
+            console.warn('Failed to save save sync state:', error);
+        }
+    }
+}
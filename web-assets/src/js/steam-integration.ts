@@ -3,12 +3,13 @@
  * Handles Steam features for the game
  */
 
-import { SteamConfig, SteamEvent, EventHandler } from '../types/game-types';
+import { SaveEnvelope, SteamConfig, SteamEventMap } from '../types/game-types';
+import { EventListener, TypedEventEmitter, Unsubscribe, WildcardListener } from './services/event-emitter';
 
 export class SteamIntegration {
     private config: SteamConfig | null = null;
     public isEnabled: boolean = false;
-    private eventListeners: Map<string, EventHandler[]> = new Map();
+    private events: TypedEventEmitter<SteamEventMap> = new TypedEventEmitter('Steam');
     
     constructor() {
         this.checkSteamAvailability();
@@ -47,33 +48,24 @@ export class SteamIntegration {
     }
     
     // Event system
-    on(event: string, callback: EventHandler): void {
-        if (!this.eventListeners.has(event)) {
-            this.eventListeners.set(event, []);
-        }
-        this.eventListeners.get(event)!.push(callback);
+    on<K extends keyof SteamEventMap>(event: K, callback: EventListener<SteamEventMap[K]>): Unsubscribe {
+        return this.events.on(event, callback);
     }
     
-    off(event: string, callback: EventHandler): void {
-        if (this.eventListeners.has(event)) {
-            const listeners = this.eventListeners.get(event)!;
-            const index = listeners.indexOf(callback);
-            if (index > -1) {
-                listeners.splice(index, 1);
-            }
-        }
+    once<K extends keyof SteamEventMap>(event: K, callback: EventListener<SteamEventMap[K]>): Unsubscribe {
+        return this.events.once(event, callback);
     }
     
-    private emit(event: string, data: any): void {
-        if (this.eventListeners.has(event)) {
-            this.eventListeners.get(event)!.forEach(callback => {
-                try {
-                    callback(data);
-                } catch (error) {
-                    console.error('Error in Steam event callback:', error);
-                }
-            });
-        }
+    off<K extends keyof SteamEventMap>(event: K, callback: EventListener<SteamEventMap[K]>): void {
+        this.events.off(event, callback);
+    }
+    
+    onAny(callback: WildcardListener<SteamEventMap>): Unsubscribe {
+        return this.events.onAny(callback);
+    }
+    
+    private emit<K extends keyof SteamEventMap>(event: K, data: SteamEventMap[K]): void {
+        this.events.emit(event, data);
     }
     
     // Steam features
@@ -95,10 +87,11 @@ export class SteamIntegration {
         this.emit('AchievementUnlocked', { id: achievementId });
     }
     
-    saveToCloud(data: any): void {
+    // Local saves live in save slots; Steam Cloud only mirrors the latest one.
+    // Upload only after the cloud save was compared with the local one, or the cloud progress is lost
+    saveToCloud(save: SaveEnvelope): void {
         if (!this.isEnabled) {
-            console.log('Steam not available, saving locally');
-            this.saveLocally(data);
+            console.log('Steam not available, cloud save skipped');
             return;
         }
         
@@ -106,19 +99,23 @@ export class SteamIntegration {
         
         // Save to Steam Cloud
         if (window.Steam && window.Steam.saveToCloud) {
-            window.Steam.saveToCloud(JSON.stringify(data));
+            window.Steam.saveToCloud(JSON.stringify(save));
         }
     }
     
-    loadFromCloud(): Promise<any> {
+    // Resolves null when Steam Cloud has no save yet
+    loadFromCloud(): Promise<unknown> {
         if (!this.isEnabled) {
-            console.log('Steam not available, loading locally');
-            return this.loadLocally();
+            return Promise.reject(new Error('Steam Cloud not available'));
         }
         
         return new Promise((resolve, reject) => {
             if (window.Steam && window.Steam.loadFromCloud) {
                 window.Steam.loadFromCloud((data: string) => {
+                    if (!data) {
+                        resolve(null);
+                        return;
+                    }
                     try {
                         const parsedData = JSON.parse(data);
                         this.emit('CloudSaveLoaded', parsedData);
@@ -133,31 +130,6 @@ export class SteamIntegration {
         });
     }
     
-    private saveLocally(data: any): void {
-        try {
-            localStorage.setItem('chaos-world-save', JSON.stringify(data));
-            console.log('Game saved locally');
-        } catch (error) {
-            console.error('Failed to save locally:', error);
-        }
-    }
-    
-    private loadLocally(): Promise<any> {
-        return new Promise((resolve, reject) => {
-            try {
-                const data = localStorage.getItem('chaos-world-save');
-                if (data) {
-                    const parsedData = JSON.parse(data);
-                    resolve(parsedData);
-                } else {
-                    reject(new Error('No local save found'));
-                }
-            } catch (error) {
-                reject(error);
-            }
-        });
-    }
-    
     // Steam overlay
     showOverlay(): void {
         if (!this.isEnabled) return;
@@ -222,7 +194,7 @@ export class SteamIntegration {
         return {
             isEnabled: this.isEnabled,
             steamAvailable: typeof window.Steam !== 'undefined',
-            eventListeners: Array.from(this.eventListeners.keys())
+            eventListeners: this.events.eventNames()
         };
     }
 }
@@ -2,10 +2,12 @@
  * Character Stats UI Component
  */
 
-import { PlayerData } from '../../types/game-types';
+import { GameStore, selectCharacterStats, shallowEqual } from '../services/game-store';
+
+type CharacterStatsData = ReturnType<typeof selectCharacterStats>;
 
 export class CharacterStats {
-    private playerData: PlayerData;
+    private playerData: CharacterStatsData;
     private elements: {
         level?: HTMLElement;
         health?: HTMLElement;
@@ -14,9 +16,10 @@ export class CharacterStats {
         cultivationLevel?: HTMLElement;
     } = {};
     
-    constructor(playerData: PlayerData) {
-        this.playerData = { ...playerData };
+    constructor(store: GameStore) {
+        this.playerData = selectCharacterStats(store.getState());
         this.initializeElements();
+        store.subscribe(selectCharacterStats, stats => this.update(stats), shallowEqual);
     }
     
     private initializeElements(): void {
@@ -27,8 +30,8 @@ export class CharacterStats {
         this.elements.cultivationLevel = document.getElementById('cultivation-level') as HTMLElement | undefined;
     }
     
-    update(playerData: PlayerData): void {
-        this.playerData = { ...this.playerData, ...playerData };
+    private update(playerData: CharacterStatsData): void {
+        this.playerData = playerData;
         this.render();
     }
     
@@ -139,21 +139,33 @@ export class CombatUI {
         `).join('');
     }
     
-    private useTechnique(techniqueId: string): void {
+    private async useTechnique(techniqueId: string): Promise<void> {
         console.log('Using technique:', techniqueId);
         
-        // Notify Unity
-        if (window.gameUI && window.gameUI.unityBridge) {
-            window.gameUI.unityBridge.useCombatTechnique(techniqueId);
+        if (!window.gameUI || !window.gameUI.unityBridge) return;
+        
+        try {
+            // Unity answers with the resolved combat state
+            const combatData: CombatData | null = await window.gameUI.unityBridge.useCombatTechnique(techniqueId);
+            if (combatData && this.combatData) {
+                this.update(combatData);
+            }
+        } catch (error) {
+            console.error('Failed to use technique:', error);
+            this.showCombatMessage(`Technique failed: ${(error as Error).message}`, 'error');
         }
     }
     
-    private useItem(itemId: string): void {
+    private async useItem(itemId: string): Promise<void> {
         console.log('Using combat item:', itemId);
         
-        // Notify Unity
-        if (window.gameUI && window.gameUI.unityBridge) {
-            window.gameUI.unityBridge.useItem(itemId);
+        if (!window.gameUI || !window.gameUI.unityBridge) return;
+        
+        try {
+            await window.gameUI.unityBridge.useItem(itemId);
+        } catch (error) {
+            console.error('Failed to use combat item:', error);
+            this.showCombatMessage(`Item failed: ${(error as Error).message}`, 'error');
         }
     }
     
@@ -2,10 +2,17 @@
  * Cultivation Panel UI Component
  */
 
-import { PlayerData } from '../../types/game-types';
+import { SuspendableTimer } from '../services/focus-manager';
+import { CULTIVATION_REALMS, GameStore, selectCultivation, shallowEqual } from '../services/game-store';
 
-export class CultivationPanel {
-    private playerData: PlayerData;
+const CULTIVATION_TICK = 1000;
+
+type CultivationSlice = ReturnType<typeof selectCultivation>;
+
+export class CultivationPanel implements SuspendableTimer {
+    private store: GameStore;
+    // Latest slice from the store; changes are dispatched, never written here
+    private playerData: CultivationSlice;
     private isCultivating: boolean = false;
     private cultivationInterval: NodeJS.Timeout | null = null;
     private elements: {
@@ -15,15 +22,14 @@ export class CultivationPanel {
         progressText?: HTMLElement;
         cultivateBtn?: HTMLButtonElement;
     } = {};
-    private realms: string[] = [
-        'Qi Refining', 'Foundation Building', 'Core Formation', 
-        'Nascent Soul', 'Spirit Severing', 'Dao Seeking'
-    ];
+    private realms: readonly string[] = CULTIVATION_REALMS;
     
-    constructor(playerData: PlayerData) {
-        this.playerData = { ...playerData };
+    constructor(store: GameStore) {
+        this.store = store;
+        this.playerData = selectCultivation(store.getState());
         this.initializeElements();
         this.setupEventListeners();
+        store.subscribe(selectCultivation, cultivation => this.update(cultivation), shallowEqual);
     }
     
     private initializeElements(): void {
@@ -42,8 +48,8 @@ export class CultivationPanel {
         }
     }
     
-    update(playerData: PlayerData): void {
-        this.playerData = { ...this.playerData, ...playerData };
+    private update(cultivation: CultivationSlice): void {
+        this.playerData = cultivation;
         this.render();
     }
     
@@ -104,12 +110,7 @@ export class CultivationPanel {
         this.isCultivating = true;
         this.updateCultivateButton();
         
-        // Start cultivation process
-        this.cultivationInterval = setInterval(() => {
-            if (this.isCultivating) {
-                this.updateCultivationProgress();
-            }
-        }, 1000);
+        this.startTicking();
         
         // Notify Unity
         if (window.gameUI && window.gameUI.unityBridge) {
@@ -123,14 +124,47 @@ export class CultivationPanel {
         this.isCultivating = false;
         this.updateCultivateButton();
         
+        this.stopTicking();
+        
+        // Notify Unity
+        if (window.gameUI && window.gameUI.unityBridge) {
+            window.gameUI.unityBridge.stopCultivation();
+        }
+    }
+    
+    private startTicking(): void {
+        this.stopTicking();
+        this.cultivationInterval = setInterval(() => {
+            if (this.isCultivating) {
+                this.updateCultivationProgress();
+            }
+        }, CULTIVATION_TICK);
+    }
+    
+    private stopTicking(): void {
         if (this.cultivationInterval) {
             clearInterval(this.cultivationInterval);
             this.cultivationInterval = null;
         }
+    }
+    
+    // Stops the tick while the game is paused; cultivation itself stays on
+    suspend(): void {
+        this.stopTicking();
+    }
+    
+    resume(elapsedMs: number): void {
+        if (!this.isCultivating) return;
+        
+        // Catch up on the ticks missed while paused, but never past a breakthrough the player did not see
+        const missedTicks = Math.floor(elapsedMs / CULTIVATION_TICK);
+        const realm = this.playerData.currentRealm;
+        for (let tick = 0; tick < missedTicks && this.isCultivating && this.playerData.currentRealm === realm; tick++) {
+            this.updateCultivationProgress();
+        }
         
-        // Notify Unity
-        if (window.gameUI && window.gameUI.unityBridge) {
-            window.gameUI.unityBridge.stopCultivation();
+        if (this.isCultivating) {
+            this.startTicking();
         }
     }
     
@@ -139,8 +173,7 @@ export class CultivationPanel {
         const increment = this.calculateProgressIncrement();
         
         if (currentProgress < 100) {
-            this.playerData.cultivationProgress = Math.min(100, currentProgress + increment);
-            this.updateProgress();
+            this.store.dispatch({ type: 'cultivation/progressed', progress: Math.min(100, currentProgress + increment) });
             
             // Check for breakthrough
             if (this.playerData.cultivationProgress >= 100) {
@@ -167,13 +200,11 @@ export class CultivationPanel {
         const currentRealmIndex = this.realms.indexOf(this.playerData.currentRealm);
         
         if (currentRealmIndex < this.realms.length - 1) {
-            this.playerData.currentRealm = this.realms[currentRealmIndex + 1];
-            this.playerData.realmLevel = 1;
-            this.playerData.cultivationProgress = 0;
+            this.store.dispatch({ type: 'cultivation/progressed', progress: 0, realm: this.realms[currentRealmIndex + 1] });
             
             // Notify Unity
             if (window.gameUI && window.gameUI.unityBridge) {
-                window.gameUI.unityBridge.sendToUnity('RealmBreakthrough', this.playerData.currentRealm);
+                window.gameUI.unityBridge.realmBreakthrough(this.playerData.currentRealm);
             }
             
             // Show breakthrough notification
@@ -182,22 +213,8 @@ export class CultivationPanel {
                 window.gameUI.uiManager.showSuccess(message);
             }
         } else {
-            this.playerData.cultivationProgress = 100;
+            this.store.dispatch({ type: 'cultivation/progressed', progress: 100 });
         }
-        
-        this.updateRealmInfo();
-        this.updateProgress();
-    }
-    
-    setProgress(progress: number): void {
-        this.playerData.cultivationProgress = progress;
-        this.render();
-    }
-    
-    setRealm(realm: string, level: number): void {
-        this.playerData.currentRealm = realm;
-        this.playerData.realmLevel = level;
-        this.updateRealmInfo();
     }
     
     getCultivationData(): any {
@@ -210,8 +227,7 @@ export class CultivationPanel {
     }
     
     resetCultivation(): void {
-        this.playerData.cultivationProgress = 0;
-        this.updateProgress();
+        this.store.dispatch({ type: 'cultivation/progressed', progress: 0 });
     }
     
     canCultivate(): boolean {
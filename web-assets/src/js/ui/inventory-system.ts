@@ -3,6 +3,7 @@
  */
 
 import { InventoryData, InventoryItem } from '../../types/game-types';
+import { GameStore, selectInventory } from '../services/game-store';
 
 export class InventorySystem {
     private items: InventoryItem[] = [];
@@ -13,9 +14,12 @@ export class InventorySystem {
         closeBtn?: HTMLElement;
     } = {};
     
-    constructor() {
+    constructor(store: GameStore) {
         this.initializeElements();
         this.setupEventListeners();
+        store.subscribe(selectInventory, inventory => {
+            this.update(inventory || { items: [], maxSlots: 0, totalWeight: 0, maxWeight: 0 });
+        });
     }
     
     private initializeElements(): void {
@@ -64,7 +68,7 @@ export class InventorySystem {
         return !!(this.elements.modal && this.elements.modal.style.display === 'block');
     }
     
-    update(inventoryData: InventoryData): void {
+    private update(inventoryData: InventoryData): void {
         this.items = inventoryData.items || [];
         this.renderItems();
     }
@@ -235,31 +239,48 @@ export class InventorySystem {
         }
     }
     
-    private useItem(item: InventoryItem): void {
+    private async useItem(item: InventoryItem): Promise<void> {
         console.log('Using item:', item.name);
         
-        // Notify Unity
-        if (window.gameUI && window.gameUI.unityBridge) {
-            window.gameUI.unityBridge.useItem(item.id);
-        }
-        
-        // Show notification
-        if (window.gameUI && window.gameUI.uiManager) {
-            window.gameUI.uiManager.showSuccess(`Used ${item.name}`);
+        try {
+            // Wait for Unity to confirm before updating the screen
+            if (window.gameUI && window.gameUI.unityBridge) {
+                await window.gameUI.unityBridge.useItem(item.id);
+            }
+            
+            if (window.gameUI && window.gameUI.uiManager) {
+                window.gameUI.uiManager.showSuccess(`Used ${item.name}`);
+            }
+        } catch (error) {
+            this.showActionError(`Could not use ${item.name}`, error);
         }
     }
     
-    private equipItem(item: InventoryItem): void {
+    private async equipItem(item: InventoryItem): Promise<void> {
         console.log('Equipping item:', item.name);
         
-        // Notify Unity
-        if (window.gameUI && window.gameUI.unityBridge) {
-            window.gameUI.unityBridge.equipItem(item.id, 'main');
+        try {
+            // Wait for Unity to confirm before updating the screen
+            if (window.gameUI && window.gameUI.unityBridge) {
+                await window.gameUI.unityBridge.equipItem(item.id, 'main');
+            }
+            
+            if (window.gameUI && window.gameUI.uiManager) {
+                window.gameUI.uiManager.showSuccess(`Equipped ${item.name}`);
+            }
+            
+            window.gameUI?.requestAutoSave('item-equip');
+        } catch (error) {
+            this.showActionError(`Could not equip ${item.name}`, error);
         }
+    }
+    
+    private showActionError(message: string, error: unknown): void {
+        console.error(`${message}:`, error);
         
-        // Show notification
         if (window.gameUI && window.gameUI.uiManager) {
-            window.gameUI.uiManager.showSuccess(`Equipped ${item.name}`);
+            const reason = error instanceof Error ? error.message : String(error);
+            window.gameUI.uiManager.showError(`${message}: ${reason}`);
         }
     }
     
@@ -272,7 +293,7 @@ export class InventorySystem {
         
         // Notify Unity
         if (window.gameUI && window.gameUI.unityBridge) {
-            window.gameUI.unityBridge.sendToUnity('DropItem', item.id);
+            window.gameUI.unityBridge.dropItem(item.id);
         }
         
         // Show notification
@@ -0,0 +1,258 @@
+/**
+ * Loading Screen UI Component
+ * Staged Unity loading progress with download size, ETA, slow-network hints and retry
+ */
+
+import { UnityBuildCacheStatus, UnityLoadingStage, UnityLoadingStatus } from '../../types/unity-types';
+import { formatBytes } from '../services/asset-cache';
+import { DOWNLOAD_COMPLETE_PROGRESS } from '../bridge/unity-loader';
+
+const STAGE_LABELS: Record<UnityLoadingStage, string> = {
+    download: 'Downloading game files',
+    decompress: 'Unpacking game files',
+    'runtime-init': 'Starting the game engine',
+    'ui-ready': 'Preparing the interface'
+};
+
+const STAGE_ORDER: UnityLoadingStage[] = ['download', 'decompress', 'runtime-init', 'ui-ready'];
+
+const SLOW_CONNECTION_TYPES = ['slow-2g', '2g', '3g'];
+// Below this many bytes per second the first download takes minutes
+const SLOW_DOWNLOAD_RATE = 250 * 1024;
+// Give the download this long before judging its speed
+const RATE_SAMPLE_DELAY = 5000;
+const STALL_HINT_DELAY = 20000;
+
+export class LoadingScreen {
+    private elements: {
+        screen?: HTMLElement;
+        progressBar?: HTMLElement;
+        text?: HTMLElement;
+        stages?: HTMLElement;
+        details?: HTMLElement;
+        cacheStatus?: HTMLElement;
+        hint?: HTMLElement;
+        retryBtn?: HTMLButtonElement;
+    } = {};
+    private onRetry: () => void;
+    private cacheStatus: UnityBuildCacheStatus | null = null;
+    private downloadStartedAt: number = 0;
+    private lastProgress: number = 0;
+    private stallTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(onRetry: () => void) {
+        this.onRetry = onRetry;
+        this.initializeElements();
+        this.setupEventListeners();
+    }
+
+    private initializeElements(): void {
+        this.elements.screen = document.getElementById('loading-screen') as HTMLElement | undefined;
+        this.elements.progressBar = document.getElementById('loading-progress') as HTMLElement | undefined;
+        this.elements.text = document.getElementById('loading-text') as HTMLElement | undefined;
+        this.elements.stages = document.getElementById('loading-stages') as HTMLElement | undefined;
+        this.elements.details = document.getElementById('loading-details') as HTMLElement | undefined;
+        this.elements.cacheStatus = document.getElementById('loading-cache-status') as HTMLElement | undefined;
+        this.elements.hint = document.getElementById('loading-hint') as HTMLElement | undefined;
+        this.elements.retryBtn = document.getElementById('loading-retry-btn') as HTMLButtonElement | undefined;
+    }
+
+    private setupEventListeners(): void {
+        this.elements.retryBtn?.addEventListener('click', () => {
+            this.elements.retryBtn!.style.display = 'none';
+            this.setHint('');
+            this.onRetry();
+        });
+    }
+
+    update(status: UnityLoadingStatus): void {
+        switch (status.state) {
+            case 'loading':
+                if (status.progress === 0) {
+                    this.startAttempt();
+                }
+                this.show();
+                this.renderProgress(status);
+                break;
+            case 'ready':
+                this.clearStallTimer();
+                this.renderProgress(status);
+                break;
+            case 'error':
+                this.clearStallTimer();
+                this.show();
+                this.renderError(status);
+                break;
+        }
+    }
+
+    setCacheStatus(status: UnityBuildCacheStatus): void {
+        this.cacheStatus = status;
+
+        if (this.elements.cacheStatus) {
+            this.elements.cacheStatus.textContent = this.describeCacheStatus(status);
+            this.elements.cacheStatus.className = `loading-cache-status ${status.cached ? 'cached' : 'downloading'}`;
+        }
+
+        if (!status.cached && this.isSlowConnection()) {
+            this.setHint('Slow connection detected. The first download can take several minutes; after that the game loads from this device.');
+        }
+    }
+
+    // Called once the UI has finished its own startup
+    complete(): void {
+        this.clearStallTimer();
+        if (this.elements.screen) {
+            this.elements.screen.style.display = 'none';
+        }
+    }
+
+    private show(): void {
+        if (this.elements.screen) {
+            this.elements.screen.style.display = 'flex';
+        }
+    }
+
+    private startAttempt(): void {
+        this.downloadStartedAt = Date.now();
+        this.lastProgress = 0;
+        this.elements.screen?.classList.remove('loading-failed');
+        if (this.elements.retryBtn) {
+            this.elements.retryBtn.style.display = 'none';
+        }
+        this.resetStallTimer();
+    }
+
+    private renderProgress(status: UnityLoadingStatus): void {
+        const stage = status.stage || 'download';
+        const percent = Math.round(status.progress * 100);
+
+        if (status.progress > this.lastProgress) {
+            this.lastProgress = status.progress;
+            this.resetStallTimer();
+        }
+
+        if (this.elements.progressBar) {
+            this.elements.progressBar.style.width = `${percent}%`;
+        }
+        if (this.elements.text) {
+            this.elements.text.textContent = stage === 'download'
+                ? `${STAGE_LABELS[stage]}... ${percent}%`
+                : `${STAGE_LABELS[stage]}...`;
+        }
+
+        this.renderStages(stage);
+        this.renderDetails(stage, status.progress);
+    }
+
+    private renderStages(current: UnityLoadingStage, failed: boolean = false): void {
+        if (!this.elements.stages) return;
+
+        const currentIndex = STAGE_ORDER.indexOf(current);
+        this.elements.stages.querySelectorAll('[data-stage]').forEach(item => {
+            const index = STAGE_ORDER.indexOf((item as HTMLElement).dataset.stage as UnityLoadingStage);
+            item.classList.toggle('done', index < currentIndex);
+            item.classList.toggle('active', index === currentIndex && !failed);
+            item.classList.toggle('failed', index === currentIndex && failed);
+        });
+    }
+
+    private renderDetails(stage: UnityLoadingStage, progress: number): void {
+        if (!this.elements.details) return;
+
+        const total = this.getDownloadSize();
+        if (stage !== 'download' || !total) {
+            this.elements.details.textContent = '';
+            return;
+        }
+
+        const loaded = Math.min(progress / DOWNLOAD_COMPLETE_PROGRESS, 1) * total;
+        const elapsed = (Date.now() - this.downloadStartedAt) / 1000;
+        const rate = elapsed > 0 ? loaded / elapsed : 0;
+        const details = [`${formatBytes(loaded)} of ${formatBytes(total)}`];
+
+        if (rate > 0 && elapsed * 1000 >= RATE_SAMPLE_DELAY) {
+            details.push(`${formatBytes(rate)}/s`);
+            details.push(this.formatEta((total - loaded) / rate));
+
+            if (rate < SLOW_DOWNLOAD_RATE) {
+                this.setHint('Your connection is slow right now. The download continues in the background; after that the game loads from this device.');
+            }
+        }
+
+        this.elements.details.textContent = details.join(' · ');
+    }
+
+    private renderError(status: UnityLoadingStatus): void {
+        this.elements.screen?.classList.add('loading-failed');
+        this.renderStages(status.stage || 'download', true);
+
+        if (this.elements.text) {
+            this.elements.text.textContent = 'The game failed to load';
+        }
+        if (this.elements.details) {
+            this.elements.details.textContent = status.error?.message || '';
+        }
+
+        this.setHint(navigator.onLine
+            ? 'Check your connection and try again. Files that already finished downloading are kept.'
+            : 'You are offline. Reconnect to the internet and try again.');
+
+        if (this.elements.retryBtn) {
+            this.elements.retryBtn.style.display = 'inline-block';
+        }
+    }
+
+    // Bytes still to download, or the cached size when loading from this device
+    private getDownloadSize(): number | null {
+        if (!this.cacheStatus) return null;
+        return this.cacheStatus.cached ? this.cacheStatus.cachedBytes : this.cacheStatus.downloadBytes;
+    }
+
+    private describeCacheStatus(status: UnityBuildCacheStatus): string {
+        const size = this.getDownloadSize();
+        const sizeText = size ? ` (${formatBytes(size)})` : '';
+
+        if (status.cached) {
+            return status.offline
+                ? `Offline: starting from the game files saved on this device${sizeText}`
+                : `Loading game files saved on this device${sizeText}`;
+        }
+        if (status.offline) {
+            return 'Offline: the game files have not been downloaded yet';
+        }
+        return status.supported
+            ? `Downloading game files${sizeText}. They will be saved for your next visit.`
+            : `Downloading game files${sizeText}`;
+    }
+
+    private isSlowConnection(): boolean {
+        const connection = (navigator as Navigator & { connection?: { effectiveType?: string; saveData?: boolean } }).connection;
+        return !!connection && (!!connection.saveData || SLOW_CONNECTION_TYPES.includes(connection.effectiveType || ''));
+    }
+
+    private formatEta(seconds: number): string {
+        if (seconds < 60) return `about ${Math.max(1, Math.round(seconds))}s left`;
+        return `about ${Math.round(seconds / 60)} min left`;
+    }
+
+    private setHint(message: string): void {
+        if (this.elements.hint) {
+            this.elements.hint.textContent = message;
+        }
+    }
+
+    private resetStallTimer(): void {
+        this.clearStallTimer();
+        this.stallTimer = setTimeout(() => {
+            this.setHint('Still working. Large files can hold the progress bar in place for a while.');
+        }, STALL_HINT_DELAY);
+    }
+
+    private clearStallTimer(): void {
+        if (this.stallTimer) {
+            clearTimeout(this.stallTimer);
+            this.stallTimer = null;
+        }
+    }
+}
@@ -0,0 +1,206 @@
+/**
+ * Performance Overlay UI Component
+ * Rolling graphs of the performance samples Unity pushes through the bridge
+ */
+
+import { UnityPerformance, UnityPerformanceThreshold } from '../../types/unity-types';
+
+type PerformanceMetric = keyof UnityPerformance;
+
+interface MetricSummary {
+    current: number;
+    min: number;
+    avg: number;
+    max: number;
+}
+
+export const PERFORMANCE_THRESHOLDS: Record<PerformanceMetric, UnityPerformanceThreshold> = {
+    fps: { min: 30 },
+    memory: { max: 384 },
+    drawCalls: { max: 300 },
+    triangles: { max: 500000 },
+    vertices: { max: 750000 }
+};
+
+const METRIC_LABELS: Record<PerformanceMetric, string> = {
+    fps: 'FPS',
+    memory: 'Memory (MB)',
+    drawCalls: 'Draw Calls',
+    triangles: 'Triangles',
+    vertices: 'Vertices'
+};
+
+const METRICS: PerformanceMetric[] = ['fps', 'memory', 'drawCalls', 'triangles', 'vertices'];
+const GRAPH_WIDTH = 160;
+const GRAPH_HEIGHT = 32;
+
+export class PerformanceOverlay {
+    private samples: UnityPerformance[] = [];
+    private maxSamples: number;
+    private thresholds: Record<PerformanceMetric, UnityPerformanceThreshold>;
+    private breached: Set<PerformanceMetric> = new Set();
+    private onThresholdExceeded?: (metric: string, value: number) => void;
+    private container: HTMLElement | null = null;
+
+    constructor(
+        onThresholdExceeded?: (metric: string, value: number) => void,
+        thresholds: Partial<Record<PerformanceMetric, UnityPerformanceThreshold>> = {},
+        maxSamples: number = 120
+    ) {
+        this.onThresholdExceeded = onThresholdExceeded;
+        this.thresholds = { ...PERFORMANCE_THRESHOLDS, ...thresholds };
+        this.maxSamples = maxSamples;
+    }
+
+    addSample(sample: UnityPerformance): void {
+        this.samples.push(sample);
+        if (this.samples.length > this.maxSamples) {
+            this.samples.shift();
+        }
+
+        this.checkThresholds(sample);
+
+        if (this.isVisible()) {
+            this.render();
+        }
+    }
+
+    show(): void {
+        if (!this.container) {
+            this.container = this.createContainer();
+            document.body.appendChild(this.container);
+        }
+        this.container.style.display = 'block';
+        this.render();
+    }
+
+    hide(): void {
+        if (this.container) {
+            this.container.style.display = 'none';
+        }
+    }
+
+    toggle(): void {
+        if (this.isVisible()) {
+            this.hide();
+        } else {
+            this.show();
+        }
+    }
+
+    isVisible(): boolean {
+        return !!(this.container && this.container.style.display !== 'none');
+    }
+
+    getSummary(metric: PerformanceMetric): MetricSummary | null {
+        if (this.samples.length === 0) return null;
+
+        const values = this.samples.map(sample => sample[metric]);
+        return {
+            current: values[values.length - 1],
+            min: Math.min(...values),
+            avg: values.reduce((total, value) => total + value, 0) / values.length,
+            max: Math.max(...values)
+        };
+    }
+
+    private isBreached(metric: PerformanceMetric, value: number): boolean {
+        const threshold = this.thresholds[metric];
+        return (threshold.min !== undefined && value < threshold.min)
+            || (threshold.max !== undefined && value > threshold.max);
+    }
+
+    // Only report when a metric crosses into warning, not on every sample
+    private checkThresholds(sample: UnityPerformance): void {
+        METRICS.forEach(metric => {
+            const breached = this.isBreached(metric, sample[metric]);
+            if (breached && !this.breached.has(metric)) {
+                this.breached.add(metric);
+                this.onThresholdExceeded?.(METRIC_LABELS[metric], sample[metric]);
+            } else if (!breached) {
+                this.breached.delete(metric);
+            }
+        });
+    }
+
+    private createContainer(): HTMLElement {
+        const container = document.createElement('div');
+        container.id = 'performance-overlay';
+        container.className = 'performance-overlay';
+        container.innerHTML = METRICS.map(metric => `
+            <div class="perf-metric" data-metric="${metric}">
+                <div class="perf-metric-header">
+                    <span class="perf-metric-label">${METRIC_LABELS[metric]}</span>
+                    <span class="perf-metric-current">-</span>
+                </div>
+                <canvas class="perf-graph" width="${GRAPH_WIDTH}" height="${GRAPH_HEIGHT}"></canvas>
+                <div class="perf-metric-stats">-</div>
+            </div>
+        `).join('');
+        return container;
+    }
+
+    private render(): void {
+        if (!this.container) return;
+
+        METRICS.forEach(metric => {
+            const element = this.container!.querySelector(`[data-metric="${metric}"]`) as HTMLElement | null;
+            const summary = this.getSummary(metric);
+            if (!element || !summary) return;
+
+            const current = element.querySelector('.perf-metric-current');
+            const stats = element.querySelector('.perf-metric-stats');
+            const canvas = element.querySelector('.perf-graph') as HTMLCanvasElement | null;
+
+            element.classList.toggle('perf-warning', this.breached.has(metric));
+            if (current) current.textContent = this.formatValue(summary.current);
+            if (stats) {
+                stats.textContent = `min ${this.formatValue(summary.min)} · avg ${this.formatValue(summary.avg)} · max ${this.formatValue(summary.max)}`;
+            }
+            if (canvas) this.drawGraph(canvas, metric);
+        });
+    }
+
+    private drawGraph(canvas: HTMLCanvasElement, metric: PerformanceMetric): void {
+        const context = canvas.getContext('2d');
+        if (!context) return;
+
+        const values = this.samples.map(sample => sample[metric]);
+        const threshold = this.thresholds[metric];
+        const limit = threshold.min !== undefined ? threshold.min : threshold.max;
+        const top = Math.max(...values, limit || 0) || 1;
+        const step = canvas.width / Math.max(1, this.maxSamples - 1);
+        const offset = this.maxSamples - values.length;
+        const toY = (value: number) => canvas.height - (value / top) * (canvas.height - 2) - 1;
+
+        context.clearRect(0, 0, canvas.width, canvas.height);
+
+        if (limit !== undefined) {
+            context.strokeStyle = 'rgba(255, 193, 7, 0.6)';
+            context.setLineDash([3, 3]);
+            context.beginPath();
+            context.moveTo(0, toY(limit));
+            context.lineTo(canvas.width, toY(limit));
+            context.stroke();
+            context.setLineDash([]);
+        }
+
+        context.strokeStyle = this.breached.has(metric) ? '#ff5252' : '#4caf50';
+        context.beginPath();
+        values.forEach((value, index) => {
+            const x = (offset + index) * step;
+            if (index === 0) {
+                context.moveTo(x, toY(value));
+            } else {
+                context.lineTo(x, toY(value));
+            }
+        });
+        context.stroke();
+    }
+
+    private formatValue(value: number): string {
+        if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+        if (value >= 1000) return `${(value / 1000).toFixed(1)}k`;
+        return Number.isInteger(value) ? value.toString() : value.toFixed(1);
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * Save Conflict Dialog UI Component
+ * Side-by-side comparison of the local and Steam Cloud saves; the player keeps one and may set a rule for next time
+ */
+
+import { SaveComparison, SaveConflictRule, SaveConflictSide, SaveEnvelope } from '../../types/game-types';
+import { SAVE_CONFLICT_RULE_LABELS, SaveConflictDecision } from '../services/save-sync';
+import { getDeviceId } from '../services/save-format';
+import { formatPlaytime } from '../services/save-slots';
+
+const SIDE_TITLES: Record<SaveConflictSide, string> = {
+    local: 'Saved on This Device',
+    cloud: 'Saved in Steam Cloud'
+};
+
+export class SaveConflictDialog {
+    // Resolves once the player picks a save; there is no way to dismiss it without choosing
+    ask(comparison: SaveComparison, rule: SaveConflictRule): Promise<SaveConflictDecision> {
+        return new Promise(resolve => {
+            const modal = document.createElement('div');
+            modal.id = 'save-conflict-modal';
+            modal.className = 'settings-modal';
+            modal.innerHTML = `
+                <div class="settings-content save-conflict-content">
+                    <div class="settings-header">
+                        <h2>Choose a Save</h2>
+                    </div>
+                    <p class="settings-hint">Your progress on this device and in Steam Cloud went separate ways. Pick the save to continue with; the other one is replaced.</p>
+                    <div class="save-conflict-sides"></div>
+                    <label class="settings-row">
+                        <span>Next Time</span>
+                        <select id="save-conflict-rule">
+                            ${(Object.keys(SAVE_CONFLICT_RULE_LABELS) as SaveConflictRule[]).map(option =>
+                                `<option value="${option}">${SAVE_CONFLICT_RULE_LABELS[option]}</option>`).join('')}
+                        </select>
+                    </label>
+                </div>
+            `;
+
+            const ruleSelect = modal.querySelector('#save-conflict-rule') as HTMLSelectElement;
+            ruleSelect.value = rule;
+
+            const choose = (keep: SaveConflictSide) => {
+                modal.remove();
+                resolve({ keep, rule: ruleSelect.value as SaveConflictRule });
+            };
+
+            modal.querySelector('.save-conflict-sides')?.append(
+                this.createSide('local', comparison, choose),
+                this.createSide('cloud', comparison, choose)
+            );
+
+            document.body.appendChild(modal);
+        });
+    }
+
+    private createSide(
+        side: SaveConflictSide,
+        comparison: SaveComparison,
+        choose: (keep: SaveConflictSide) => void
+    ): HTMLElement {
+        const save: SaveEnvelope = comparison[side];
+        const column = document.createElement('div');
+        column.className = 'save-conflict-side';
+
+        const title = document.createElement('h3');
+        title.textContent = SIDE_TITLES[side];
+
+        const badges = document.createElement('div');
+        badges.className = 'save-conflict-badges';
+        if (comparison.newer === side) badges.appendChild(this.createBadge('Newer'));
+        if (comparison.moreProgress === side) badges.appendChild(this.createBadge('More Progress'));
+
+        const details = document.createElement('ul');
+        [
+            `${save.summary.realm} · Realm Level ${save.summary.realmLevel}`,
+            `Level ${save.summary.level} · ${save.summary.experience} XP`,
+            `Played ${formatPlaytime(save.summary.playtime)}`,
+            save.savedAt ? `Saved ${new Date(save.savedAt).toLocaleString()}` : 'Save time unknown',
+            this.describeDevice(save.deviceId)
+        ].forEach(text => {
+            const item = document.createElement('li');
+            item.textContent = text;
+            details.appendChild(item);
+        });
+
+        const keepBtn = document.createElement('button');
+        keepBtn.className = 'btn';
+        keepBtn.textContent = side === 'local' ? 'Keep This Device' : 'Keep Steam Cloud';
+        keepBtn.addEventListener('click', () => choose(side));
+
+        column.append(title, badges, details, keepBtn);
+        return column;
+    }
+
+    private createBadge(label: string): HTMLElement {
+        const badge = document.createElement('span');
+        badge.className = 'save-conflict-badge';
+        badge.textContent = label;
+        return badge;
+    }
+
+    private describeDevice(deviceId: string): string {
+        if (deviceId === 'unknown') return 'Device unknown';
+        return deviceId === getDeviceId() ? 'From this device' : 'From another device';
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * Save Indicator UI Component
+ * Small HUD line with the time of the last save and the reason the last auto-save failed
+ */
+
+import { AutoSaveStatus } from '../services/auto-save';
+
+// Keeps "saved 3 min ago" current without a new save
+const REFRESH_INTERVAL = 30000;
+
+export class SaveIndicator {
+    private element: HTMLElement | null;
+    private status: AutoSaveStatus = { state: 'idle', lastSavedAt: null };
+
+    constructor() {
+        this.element = document.getElementById('save-indicator');
+        this.render();
+        setInterval(() => this.render(), REFRESH_INTERVAL);
+    }
+
+    update(status: AutoSaveStatus): void {
+        this.status = status;
+        this.render();
+    }
+
+    private render(): void {
+        if (!this.element) return;
+
+        this.element.className = `save-indicator ui-element ${this.status.state}`;
+        this.element.title = this.status.error || '';
+        this.element.textContent = this.describe();
+    }
+
+    private describe(): string {
+        const lastSaved = this.status.lastSavedAt ? `Saved ${this.formatAge(this.status.lastSavedAt)}` : 'Not saved yet';
+
+        switch (this.status.state) {
+            case 'saving':
+                return 'Saving...';
+            case 'failed':
+                return `Save failed · ${lastSaved}`;
+            default:
+                return lastSaved;
+        }
+    }
+
+    private formatAge(time: number): string {
+        const minutes = Math.floor((Date.now() - time) / 60000);
+        if (minutes < 1) return 'just now';
+        if (minutes < 60) return `${minutes} min ago`;
+        return `at ${new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+    }
+}
@@ -0,0 +1,245 @@
+/**
+ * Save Slots Panel UI Component
+ * Lists save slots with their thumbnails and metadata; saving, loading, overwriting and deleting slots
+ */
+
+import { SaveConflictRule, SaveSlotInfo } from '../../types/game-types';
+import { SaveSlotManager, formatPlaytime } from '../services/save-slots';
+import { SAVE_CONFLICT_RULE_LABELS, SaveSync } from '../services/save-sync';
+
+// Slot actions that replace or destroy a save and need a second click
+type PendingAction = { type: 'overwrite' | 'delete'; slotId: string };
+
+export class SaveSlotsPanel {
+    private slots: SaveSlotManager;
+    private sync: SaveSync | null;
+    private onSave: (slotId: string | undefined, name: string) => Promise<void>;
+    private onLoad: (slotId: string) => void;
+    private modal: HTMLElement | null = null;
+    private pending: PendingAction | null = null;
+
+    constructor(
+        slots: SaveSlotManager,
+        sync: SaveSync | null,
+        onSave: (slotId: string | undefined, name: string) => Promise<void>,
+        onLoad: (slotId: string) => void
+    ) {
+        this.slots = slots;
+        this.sync = sync;
+        this.onSave = onSave;
+        this.onLoad = onLoad;
+        this.setupEventListeners();
+    }
+
+    private setupEventListeners(): void {
+        const savesBtn = document.getElementById('saves-btn');
+        if (savesBtn) {
+            savesBtn.addEventListener('click', () => this.toggle());
+        }
+    }
+
+    show(): void {
+        if (!this.modal) {
+            this.modal = this.createModal();
+            document.body.appendChild(this.modal);
+        }
+        this.modal.style.display = 'flex';
+        this.pending = null;
+        this.refresh();
+    }
+
+    hide(): void {
+        if (this.modal) {
+            this.modal.style.display = 'none';
+        }
+    }
+
+    toggle(): void {
+        if (this.isVisible()) {
+            this.hide();
+        } else {
+            this.show();
+        }
+    }
+
+    isVisible(): boolean {
+        return !!(this.modal && this.modal.style.display !== 'none');
+    }
+
+    // Re-reads the slots, e.g. after an auto-save
+    refresh(): void {
+        if (!this.modal || !this.isVisible()) return;
+
+        const list = this.modal.querySelector('#save-slot-list');
+        if (list) {
+            const slots = this.slots.list();
+            list.replaceChildren(...slots.map(slot => this.createSlotItem(slot)));
+            if (slots.length === 0) {
+                const empty = document.createElement('p');
+                empty.className = 'settings-hint';
+                empty.textContent = 'No saves yet.';
+                list.appendChild(empty);
+            }
+        }
+
+        const canCreate = this.slots.canCreate();
+        const createBtn = this.modal.querySelector('#save-slot-create') as HTMLButtonElement | null;
+        if (createBtn) {
+            createBtn.disabled = !canCreate;
+        }
+
+        const hint = this.modal.querySelector('#save-slot-hint');
+        if (hint) {
+            const used = this.slots.list().filter(slot => !slot.autoSave).length;
+            hint.textContent = canCreate
+                ? `${used} of ${this.slots.getMaxSlots()} slots used`
+                : 'All slots are in use. Overwrite or delete a save to make room.';
+        }
+
+        const ruleSelect = this.modal.querySelector('#save-conflict-rule-setting') as HTMLSelectElement | null;
+        if (ruleSelect && this.sync) {
+            ruleSelect.value = this.sync.getRule();
+        }
+    }
+
+    private createSlotItem(slot: SaveSlotInfo): HTMLElement {
+        const item = document.createElement('div');
+        item.className = `save-slot${slot.autoSave ? ' auto-save' : ''}`;
+
+        const thumbnail = document.createElement('div');
+        thumbnail.className = 'save-slot-thumbnail';
+        if (slot.thumbnail) {
+            const image = document.createElement('img');
+            image.src = slot.thumbnail;
+            image.alt = '';
+            thumbnail.appendChild(image);
+        }
+
+        const info = document.createElement('div');
+        info.className = 'save-slot-info';
+        const name = document.createElement('strong');
+        name.textContent = slot.name;
+        const details = document.createElement('span');
+        details.textContent = [
+            `${slot.metadata.realm} · Level ${slot.metadata.level}`,
+            `Played ${formatPlaytime(slot.metadata.playtime)}`,
+            new Date(slot.metadata.savedAt).toLocaleString()
+        ].join('\n');
+        info.append(name, details);
+
+        item.append(thumbnail, info, this.createSlotActions(slot));
+        return item;
+    }
+
+    private createSlotActions(slot: SaveSlotInfo): HTMLElement {
+        const actions = document.createElement('div');
+        actions.className = 'save-slot-actions';
+
+        const pending = this.pending && this.pending.slotId === slot.id ? this.pending : null;
+        if (pending) {
+            const question = document.createElement('span');
+            question.textContent = pending.type === 'overwrite' ? 'Overwrite this save?' : 'Delete this save?';
+            actions.append(
+                question,
+                this.createButton('Confirm', () => {
+                    this.pending = null;
+                    if (pending.type === 'overwrite') {
+                        this.onSave(slot.id, slot.name).then(() => this.refresh());
+                    } else {
+                        this.slots.remove(slot.id);
+                        this.refresh();
+                    }
+                }),
+                this.createButton('Cancel', () => this.setPending(null))
+            );
+            return actions;
+        }
+
+        actions.appendChild(this.createButton('Load', () => {
+            this.onLoad(slot.id);
+            this.hide();
+        }));
+        // The auto-save slot is only written by the game
+        if (!slot.autoSave) {
+            actions.append(
+                this.createButton('Overwrite', () => this.setPending({ type: 'overwrite', slotId: slot.id })),
+                this.createButton('Delete', () => this.setPending({ type: 'delete', slotId: slot.id }))
+            );
+        }
+        return actions;
+    }
+
+    private createButton(label: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'btn';
+        button.textContent = label;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    private setPending(pending: PendingAction | null): void {
+        this.pending = pending;
+        this.refresh();
+    }
+
+    private createModal(): HTMLElement {
+        const modal = document.createElement('div');
+        modal.id = 'save-slots-modal';
+        modal.className = 'settings-modal';
+        modal.innerHTML = `
+            <div class="settings-content save-slots-content">
+                <div class="settings-header">
+                    <h2>Saves</h2>
+                    <button class="btn-close" id="save-slots-close">&times;</button>
+                </div>
+                <div class="settings-section">
+                    <h3>New Save</h3>
+                    <div class="save-slot-new">
+                        <input type="text" id="save-slot-name" maxlength="40" placeholder="Save name">
+                        <button class="btn" id="save-slot-create">Save</button>
+                    </div>
+                    <div class="settings-hint" id="save-slot-hint"></div>
+                </div>
+                <div class="settings-section">
+                    <h3>Saved Games</h3>
+                    <div class="save-slot-list" id="save-slot-list"></div>
+                </div>
+                ${this.sync ? `
+                    <div class="settings-section">
+                        <h3>Steam Cloud</h3>
+                        <label class="settings-row">
+                            <span>When Saves Differ</span>
+                            <select id="save-conflict-rule-setting">
+                                ${(Object.keys(SAVE_CONFLICT_RULE_LABELS) as SaveConflictRule[]).map(rule =>
+                                    `<option value="${rule}">${SAVE_CONFLICT_RULE_LABELS[rule]}</option>`).join('')}
+                            </select>
+                        </label>
+                        <div class="settings-hint">Applies when this device and Steam Cloud both have progress the other is missing.</div>
+                    </div>
+                ` : ''}
+            </div>
+        `;
+
+        modal.querySelector('#save-conflict-rule-setting')?.addEventListener('change', (event: Event) => {
+            this.sync?.setRule((event.target as HTMLSelectElement).value as SaveConflictRule);
+        });
+
+        modal.querySelector('#save-slots-close')?.addEventListener('click', () => this.hide());
+        modal.addEventListener('click', (event: MouseEvent) => {
+            if (event.target === modal) {
+                this.hide();
+            }
+        });
+
+        const nameInput = modal.querySelector('#save-slot-name') as HTMLInputElement | null;
+        modal.querySelector('#save-slot-create')?.addEventListener('click', () => {
+            const name = nameInput?.value.trim() || `Save ${new Date().toLocaleString()}`;
+            if (nameInput) {
+                nameInput.value = '';
+            }
+            this.onSave(undefined, name).then(() => this.refresh());
+        });
+
+        return modal;
+    }
+}
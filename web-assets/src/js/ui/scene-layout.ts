@@ -0,0 +1,80 @@
+/**
+ * Scene Layout UI Component
+ * Shows the HTML panels that belong to the current Unity scene and the pause overlay
+ */
+
+import { GameState } from '../../types/game-types';
+import { GameStore, selectGame } from '../services/game-store';
+
+// Panels allowed on screen per Unity scene; a panel missing from a scene is hidden there.
+// combat-ui is left out: CombatUI shows it on CombatStarted, which can arrive before Unity reports isInCombat
+export const SCENE_PANELS: Record<string, string[]> = {
+    main: ['character-stats', 'cultivation-panel', 'inventory-btn', 'saves-btn', 'settings-btn'],
+    combat: ['character-stats', 'settings-btn'],
+    menu: ['saves-btn', 'settings-btn'],
+    cutscene: []
+};
+
+// Unknown scenes fall back to the main layout
+const DEFAULT_SCENE = 'main';
+
+export class SceneLayout {
+    private managedPanels: string[];
+    private currentLayout: string | null = null;
+    private pauseOverlay: HTMLElement | null = null;
+
+    constructor(store: GameStore) {
+        this.managedPanels = Array.from(new Set(Object.values(SCENE_PANELS).flat()));
+        store.subscribe(selectGame, game => this.apply(game));
+    }
+
+    private apply(game: GameState['game']): void {
+        this.applyLayout(this.resolveLayout(game));
+        this.setPaused(game.isPaused);
+    }
+
+    getCurrentLayout(): string | null {
+        return this.currentLayout;
+    }
+
+    // Combat can happen inside any scene, so the combat flag wins over the scene name
+    private resolveLayout(game: GameState['game']): string {
+        if (game.isInCombat) return 'combat';
+        return SCENE_PANELS[game.currentScene] ? game.currentScene : DEFAULT_SCENE;
+    }
+
+    private applyLayout(layout: string): void {
+        if (layout === this.currentLayout) return;
+        this.currentLayout = layout;
+
+        const visible = SCENE_PANELS[layout];
+        this.managedPanels.forEach(panelId => {
+            // Only hides panels; whether a visible panel is open stays up to its own component
+            document.getElementById(panelId)?.classList.toggle('scene-hidden', !visible.includes(panelId));
+        });
+        document.body.dataset.scene = layout;
+    }
+
+    private setPaused(paused: boolean): void {
+        if (paused && !this.pauseOverlay) {
+            this.pauseOverlay = this.createPauseOverlay();
+            document.body.appendChild(this.pauseOverlay);
+        }
+        if (this.pauseOverlay) {
+            this.pauseOverlay.style.display = paused ? 'flex' : 'none';
+        }
+    }
+
+    private createPauseOverlay(): HTMLElement {
+        const overlay = document.createElement('div');
+        overlay.id = 'pause-overlay';
+        overlay.className = 'pause-overlay';
+        overlay.innerHTML = `
+            <div class="pause-content">
+                <h2>Paused</h2>
+                <p>The game is paused.</p>
+            </div>
+        `;
+        return overlay;
+    }
+}
@@ -0,0 +1,306 @@
+/**
+ * Settings Panel UI Component
+ * Graphics presets, individual quality overrides, adaptive quality, the device profile and background behaviour
+ */
+
+import {
+    UnityDeviceProfile,
+    UnityFocusPolicies,
+    UnityFocusPolicy,
+    UnityQualityPreset,
+    UnityQualitySettings
+} from '../../types/unity-types';
+import { ADAPTIVE_STEPS, QualityController } from '../services/quality-controller';
+import { DEVICE_PROFILE_LABELS, DeviceProfileController } from '../services/device-profile';
+import { FOCUS_POLICY_LABELS, FocusManager } from '../services/focus-manager';
+
+interface QualitySettingControl<K extends keyof UnityQualitySettings> {
+    key: K;
+    label: string;
+    options: Array<{ label: string; value: UnityQualitySettings[K] }>;
+}
+
+// One member per setting, so each control's option values must match the type of its key
+type QualityControl = { [K in keyof UnityQualitySettings]: QualitySettingControl<K> }[keyof UnityQualitySettings];
+
+const PRESET_LABELS: Record<UnityQualityPreset, string> = {
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+    ultra: 'Ultra'
+};
+
+const FOCUS_CONTROLS: Array<{ key: keyof UnityFocusPolicies; label: string }> = [
+    { key: 'hidden', label: 'When Tab Is Hidden' },
+    { key: 'blurred', label: 'When Window Loses Focus' }
+];
+
+const ON_OFF = [{ label: 'Off', value: false }, { label: 'On', value: true }];
+
+const QUALITY_CONTROLS: QualityControl[] = [
+    {
+        key: 'renderScale',
+        label: 'Render Scale',
+        options: [0.5, 0.6, 0.7, 0.75, 0.85, 1.0].map(value => ({ label: `${Math.round(value * 100)}%`, value }))
+    },
+    {
+        key: 'textureQuality',
+        label: 'Textures',
+        options: [{ label: 'Quarter', value: 0.25 }, { label: 'Half', value: 0.5 }, { label: 'Full', value: 1.0 }]
+    },
+    {
+        key: 'antiAliasing',
+        label: 'Anti-Aliasing',
+        options: [{ label: 'Off', value: 0 }, { label: '2x', value: 2 }, { label: '4x', value: 4 }, { label: '8x', value: 8 }]
+    },
+    {
+        key: 'anisotropicFiltering',
+        label: 'Anisotropic Filtering',
+        options: [{ label: 'Off', value: 0 }, { label: 'Per Texture', value: 1 }, { label: 'Forced', value: 2 }]
+    },
+    {
+        key: 'pixelLightCount',
+        label: 'Pixel Lights',
+        options: [0, 1, 2, 4].map(value => ({ label: String(value), value }))
+    },
+    {
+        key: 'lodBias',
+        label: 'Level of Detail',
+        options: [{ label: 'Low', value: 0.5 }, { label: 'Normal', value: 1.0 }, { label: 'High', value: 1.5 }, { label: 'Very High', value: 2.0 }]
+    },
+    { key: 'softVegetation', label: 'Soft Vegetation', options: ON_OFF },
+    { key: 'realtimeReflectionProbes', label: 'Realtime Reflections', options: ON_OFF },
+    {
+        key: 'vSyncCount',
+        label: 'V-Sync',
+        options: [{ label: 'Off', value: 0 }, { label: 'On', value: 1 }]
+    }
+];
+
+export class SettingsPanel {
+    private quality: QualityController;
+    private device: DeviceProfileController;
+    private focus: FocusManager;
+    private modal: HTMLElement | null = null;
+
+    constructor(quality: QualityController, device: DeviceProfileController, focus: FocusManager) {
+        this.quality = quality;
+        this.device = device;
+        this.focus = focus;
+        this.setupEventListeners();
+    }
+
+    private setupEventListeners(): void {
+        const settingsBtn = document.getElementById('settings-btn');
+        if (settingsBtn) {
+            settingsBtn.addEventListener('click', () => this.toggle());
+        }
+    }
+
+    show(): void {
+        if (!this.modal) {
+            this.modal = this.createModal();
+            document.body.appendChild(this.modal);
+        }
+        this.modal.style.display = 'flex';
+        this.refresh();
+    }
+
+    hide(): void {
+        if (this.modal) {
+            this.modal.style.display = 'none';
+        }
+    }
+
+    toggle(): void {
+        if (this.isVisible()) {
+            this.hide();
+        } else {
+            this.show();
+        }
+    }
+
+    isVisible(): boolean {
+        return !!(this.modal && this.modal.style.display !== 'none');
+    }
+
+    // Re-reads the controller, e.g. after the adaptive controller changed a step
+    refresh(): void {
+        if (!this.modal || !this.isVisible()) return;
+
+        const preferences = this.quality.getPreferences();
+        const selected = this.quality.getSelectedSettings();
+        const isCustom = Object.keys(preferences.overrides).length > 0;
+
+        const presetSelect = this.modal.querySelector('#quality-preset') as HTMLSelectElement | null;
+        if (presetSelect) {
+            presetSelect.value = isCustom ? 'custom' : preferences.preset;
+        }
+
+        const adaptiveToggle = this.modal.querySelector('#quality-adaptive') as HTMLInputElement | null;
+        if (adaptiveToggle) {
+            adaptiveToggle.checked = preferences.adaptive;
+        }
+
+        QUALITY_CONTROLS.forEach(control => {
+            const select = this.modal!.querySelector(`[data-setting="${control.key}"]`) as HTMLSelectElement | null;
+            if (!select) return;
+
+            const index = control.options.findIndex(option => option.value === selected[control.key]);
+            select.value = index > -1 ? String(index) : '';
+        });
+
+        const status = this.modal.querySelector('#quality-adaptive-status');
+        if (status) {
+            status.textContent = this.describeAdaptiveState(preferences.adaptive);
+        }
+
+        const profileSelect = this.modal.querySelector('#device-profile') as HTMLSelectElement | null;
+        if (profileSelect) {
+            profileSelect.value = this.device.getOverride() || 'auto';
+        }
+
+        const deviceInfo = this.modal.querySelector('#device-profile-info');
+        if (deviceInfo) {
+            deviceInfo.textContent = this.describeDevice();
+        }
+
+        const policies = this.focus.getPolicies();
+        FOCUS_CONTROLS.forEach(control => {
+            const select = this.modal!.querySelector(`[data-focus="${control.key}"]`) as HTMLSelectElement | null;
+            if (select) {
+                select.value = policies[control.key];
+            }
+        });
+    }
+
+    private describeDevice(): string {
+        const capabilities = this.device.getCapabilities();
+        const details = [
+            `Detected: ${DEVICE_PROFILE_LABELS[this.device.getDetectedProfile()]}`,
+            `${capabilities.screenWidth}×${capabilities.screenHeight}`,
+            capabilities.touch ? 'touch' : 'no touch'
+        ];
+        if (capabilities.deviceMemory !== undefined) {
+            details.push(`${capabilities.deviceMemory} GB RAM`);
+        }
+        if (capabilities.maxTextureSize > 0) {
+            details.push(`max texture ${capabilities.maxTextureSize}px`);
+        }
+        return details.join(' · ');
+    }
+
+    private describeAdaptiveState(adaptive: boolean): string {
+        if (!adaptive) return 'Quality stays exactly as selected.';
+
+        const step = this.quality.getAdaptiveStep();
+        if (step === 0) return 'Running at the selected quality.';
+
+        const effective = this.quality.getEffectiveSettings();
+        return `Reduced to keep the frame rate up (step ${step} of ${ADAPTIVE_STEPS.length - 1}, render scale ${Math.round(effective.renderScale * 100)}%).`;
+    }
+
+    private createModal(): HTMLElement {
+        const modal = document.createElement('div');
+        modal.id = 'settings-modal';
+        modal.className = 'settings-modal';
+        modal.innerHTML = `
+            <div class="settings-content">
+                <div class="settings-header">
+                    <h2>Settings</h2>
+                    <button class="btn-close" id="settings-close">&times;</button>
+                </div>
+                <div class="settings-section" id="settings-graphics">
+                    <h3>Graphics</h3>
+                    <label class="settings-row">
+                        <span>Preset</span>
+                        <select id="quality-preset">
+                            ${(Object.keys(PRESET_LABELS) as UnityQualityPreset[]).map(preset =>
+                                `<option value="${preset}">${PRESET_LABELS[preset]}</option>`).join('')}
+                            <option value="custom" disabled>Custom</option>
+                        </select>
+                    </label>
+                    <label class="settings-row">
+                        <span>Adaptive Quality</span>
+                        <input type="checkbox" id="quality-adaptive">
+                    </label>
+                    <div class="settings-hint" id="quality-adaptive-status"></div>
+                    ${QUALITY_CONTROLS.map(control => `
+                        <label class="settings-row">
+                            <span>${control.label}</span>
+                            <select data-setting="${control.key}">
+                                ${control.options.map((option, index) => `<option value="${index}">${option.label}</option>`).join('')}
+                            </select>
+                        </label>
+                    `).join('')}
+                </div>
+                <div class="settings-section" id="settings-device">
+                    <h3>Device</h3>
+                    <label class="settings-row">
+                        <span>Profile</span>
+                        <select id="device-profile">
+                            <option value="auto">Automatic</option>
+                            ${(Object.keys(DEVICE_PROFILE_LABELS) as UnityDeviceProfile[]).map(profile =>
+                                `<option value="${profile}">${DEVICE_PROFILE_LABELS[profile]}</option>`).join('')}
+                        </select>
+                    </label>
+                    <div class="settings-hint" id="device-profile-info"></div>
+                </div>
+                <div class="settings-section" id="settings-background">
+                    <h3>Background</h3>
+                    ${FOCUS_CONTROLS.map(control => `
+                        <label class="settings-row">
+                            <span>${control.label}</span>
+                            <select data-focus="${control.key}">
+                                ${(Object.keys(FOCUS_POLICY_LABELS) as UnityFocusPolicy[]).map(policy =>
+                                    `<option value="${policy}">${FOCUS_POLICY_LABELS[policy]}</option>`).join('')}
+                            </select>
+                        </label>
+                    `).join('')}
+                    <div class="settings-hint">Pausing saves battery; the game catches up on the time you were away.</div>
+                </div>
+            </div>
+        `;
+
+        modal.querySelector('#settings-close')?.addEventListener('click', () => this.hide());
+        modal.addEventListener('click', (event: MouseEvent) => {
+            if (event.target === modal) {
+                this.hide();
+            }
+        });
+
+        modal.querySelector('#quality-preset')?.addEventListener('change', (event: Event) => {
+            this.quality.setPreset((event.target as HTMLSelectElement).value as UnityQualityPreset);
+            this.refresh();
+        });
+
+        modal.querySelector('#quality-adaptive')?.addEventListener('change', (event: Event) => {
+            this.quality.setAdaptive((event.target as HTMLInputElement).checked);
+            this.refresh();
+        });
+
+        modal.querySelector('#device-profile')?.addEventListener('change', (event: Event) => {
+            const value = (event.target as HTMLSelectElement).value;
+            this.device.setOverride(value === 'auto' ? null : value as UnityDeviceProfile);
+            this.refresh();
+        });
+
+        FOCUS_CONTROLS.forEach(control => {
+            modal.querySelector(`[data-focus="${control.key}"]`)?.addEventListener('change', (event: Event) => {
+                this.focus.setPolicy(control.key, (event.target as HTMLSelectElement).value as UnityFocusPolicy);
+            });
+        });
+
+        QUALITY_CONTROLS.forEach(control => {
+            modal.querySelector(`[data-setting="${control.key}"]`)?.addEventListener('change', (event: Event) => {
+                const option = control.options[parseInt((event.target as HTMLSelectElement).value, 10)];
+                if (option) {
+                    this.quality.setOverride(control.key, option.value);
+                    this.refresh();
+                }
+            });
+        });
+
+        return modal;
+    }
+}
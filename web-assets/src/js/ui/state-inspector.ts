@@ -0,0 +1,175 @@
+/**
+ * State Inspector UI Component
+ * Debug panel view of the live GameState tree, its change timeline and diffs, with jumping back to a snapshot
+ */
+
+import { GameActionSource, GameStateEntry } from '../../types/game-types';
+import { GameStore, diffGameStates } from '../services/game-store';
+import { Unsubscribe } from '../services/event-emitter';
+
+const SOURCE_LABELS: Record<GameActionSource, string> = {
+    unity: 'Unity',
+    user: 'User',
+    cloud: 'Cloud',
+    inspector: 'Jump'
+};
+
+// Newest entries shown in the timeline; the store keeps more
+const TIMELINE_LIMIT = 50;
+
+export class StateInspector {
+    private container: HTMLElement;
+    private store: GameStore;
+    private selectedId: number | null = null;
+    // Tree paths the user expanded, kept across re-renders
+    private expanded: Set<string> = new Set(['player', 'game']);
+    private renderFrame: number | null = null;
+    private unsubscribe: Unsubscribe;
+
+    constructor(container: HTMLElement, store: GameStore) {
+        this.container = container;
+        this.store = store;
+        this.container.innerHTML = `
+            <h4>Game State</h4>
+            <div class="debug-state-tree" id="debug-state-tree"></div>
+            <h4>Timeline</h4>
+            <ol class="debug-state-timeline" id="debug-state-timeline"></ol>
+            <div class="debug-state-diff" id="debug-state-diff"></div>
+        `;
+        this.unsubscribe = store.onAction(() => this.scheduleRender());
+        this.render();
+    }
+
+    destroy(): void {
+        this.unsubscribe();
+        if (this.renderFrame !== null) {
+            cancelAnimationFrame(this.renderFrame);
+            this.renderFrame = null;
+        }
+        this.container.innerHTML = '';
+    }
+
+    // Unity can report state many times a second; render at most once per frame
+    private scheduleRender(): void {
+        if (this.renderFrame !== null) return;
+        this.renderFrame = requestAnimationFrame(() => {
+            this.renderFrame = null;
+            this.render();
+        });
+    }
+
+    private render(): void {
+        const history = this.store.getHistory();
+        if (this.selectedId !== null && !history.some(entry => entry.id === this.selectedId)) {
+            this.selectedId = null;
+        }
+
+        this.renderTree();
+        this.renderTimeline(history);
+        this.renderDiff(history.find(entry => entry.id === this.selectedId));
+    }
+
+    private renderTree(): void {
+        const tree = this.container.querySelector('#debug-state-tree');
+        if (!tree) return;
+        tree.replaceChildren(this.createNode('state', this.store.getState(), ''));
+    }
+
+    private createNode(key: string, value: unknown, path: string): HTMLElement {
+        if (typeof value !== 'object' || value === null) {
+            const leaf = document.createElement('div');
+            leaf.className = 'debug-state-leaf';
+            leaf.textContent = `${key}: ${this.formatValue(value)}`;
+            return leaf;
+        }
+
+        const node = document.createElement('details');
+        node.open = !path || this.expanded.has(path);
+        node.addEventListener('toggle', () => {
+            if (!path) return;
+            if (node.open) {
+                this.expanded.add(path);
+            } else {
+                this.expanded.delete(path);
+            }
+        });
+
+        const entries = Object.entries(value as Record<string, unknown>);
+        const summary = document.createElement('summary');
+        summary.textContent = Array.isArray(value) ? `${key} [${entries.length}]` : key;
+        node.appendChild(summary);
+
+        entries.forEach(([childKey, childValue]) => {
+            node.appendChild(this.createNode(childKey, childValue, path ? `${path}.${childKey}` : childKey));
+        });
+        return node;
+    }
+
+    private renderTimeline(history: GameStateEntry[]): void {
+        const timeline = this.container.querySelector('#debug-state-timeline');
+        if (!timeline) return;
+
+        const items = history.slice(-TIMELINE_LIMIT).reverse().map(entry => {
+            const item = document.createElement('li');
+            item.className = `debug-state-entry${entry.id === this.selectedId ? ' selected' : ''}`;
+
+            const source = document.createElement('span');
+            source.className = `debug-state-source source-${entry.source}`;
+            source.textContent = SOURCE_LABELS[entry.source];
+
+            const label = document.createElement('span');
+            label.textContent = `${new Date(entry.time).toLocaleTimeString()} ${entry.action.type}`;
+
+            item.append(source, label);
+            item.addEventListener('click', () => {
+                this.selectedId = entry.id === this.selectedId ? null : entry.id;
+                this.render();
+            });
+            return item;
+        });
+
+        if (items.length === 0) {
+            const empty = document.createElement('li');
+            empty.textContent = 'No state changes yet';
+            items.push(empty);
+        }
+        timeline.replaceChildren(...items);
+    }
+
+    private renderDiff(entry: GameStateEntry | undefined): void {
+        const panel = this.container.querySelector('#debug-state-diff');
+        if (!panel) return;
+
+        if (!entry) {
+            panel.replaceChildren();
+            return;
+        }
+
+        const heading = document.createElement('p');
+        heading.textContent = `#${entry.id} ${entry.action.type}`;
+
+        const list = document.createElement('ul');
+        diffGameStates(entry.previous, entry.state).forEach(diff => {
+            const item = document.createElement('li');
+            item.textContent = `${diff.path}: ${this.formatValue(diff.before)} → ${this.formatValue(diff.after)}`;
+            list.appendChild(item);
+        });
+
+        const jumpBtn = document.createElement('button');
+        jumpBtn.className = 'btn';
+        jumpBtn.textContent = 'Jump Here';
+        jumpBtn.disabled = entry.state === this.store.getState();
+        jumpBtn.addEventListener('click', () => {
+            console.log(`⏪ Restoring game state from #${entry.id} (${entry.action.type})`);
+            this.store.restore(entry.id);
+        });
+
+        panel.replaceChildren(heading, list, jumpBtn);
+    }
+
+    private formatValue(value: unknown): string {
+        if (value === undefined) return 'undefined';
+        const text = JSON.stringify(value);
+        return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+    }
+}
@@ -3,13 +3,26 @@
  * Manages UI components and interactions
  */
 
+import { BridgeRecorder } from '../bridge/bridge-recorder';
+import { PerformanceOverlay } from './performance-overlay';
+import { StateInspector } from './state-inspector';
+import { UnityPerformance } from '../../types/unity-types';
+
 export class UIManager {
     private components: Map<string, any> = new Map();
     private modals: Map<string, HTMLElement> = new Map();
     private notifications: HTMLElement[] = [];
     private isDebugMode: boolean = false;
+    private performanceOverlay: PerformanceOverlay;
+    private stateInspector: StateInspector | null = null;
     
     constructor() {
+        this.performanceOverlay = new PerformanceOverlay((metric: string, value: number) => {
+            // Only QA looking at the overlay needs to hear about it
+            if (this.performanceOverlay.isVisible()) {
+                this.showWarning(`Performance warning: ${metric} at ${Math.round(value)}`);
+            }
+        });
         this.setupEventListeners();
     }
     
@@ -162,6 +175,25 @@ export class UIManager {
         this.showNotification(message, 'warning', 4000);
     }
     
+    // Stays on screen until the page is reloaded
+    showIncompatibilityBanner(message: string): void {
+        if (document.getElementById('incompatibility-banner')) return;
+        
+        const banner = document.createElement('div');
+        banner.id = 'incompatibility-banner';
+        banner.className = 'incompatibility-banner';
+        banner.innerHTML = `
+            <span class="incompatibility-message"></span>
+            <button class="btn incompatibility-reload">Reload</button>
+        `;
+        banner.querySelector('.incompatibility-message')!.textContent = message;
+        banner.querySelector('.incompatibility-reload')!.addEventListener('click', () => {
+            window.location.reload();
+        });
+        
+        document.body.appendChild(banner);
+    }
+    
     // Achievement system
     showAchievement(achievement: any): void {
         this.showNotification(`Achievement Unlocked: ${achievement.name}`, 'success', 5000);
@@ -200,10 +232,37 @@ export class UIManager {
                     <p>Notifications: ${this.notifications.length}</p>
                     <p>Components: ${this.components.size}</p>
                 </div>
+                <div class="debug-performance">
+                    <h4>Performance</h4>
+                    <button id="debug-perf-btn" class="btn">${this.performanceOverlay.isVisible() ? 'Hide' : 'Show'} Overlay</button>
+                </div>
+                <div class="debug-bridge">
+                    <h4>Bridge Traffic</h4>
+                    <button id="debug-record-btn" class="btn">Start Recording</button>
+                    <div class="debug-replay">
+                        <input type="file" id="debug-replay-file" accept="application/json">
+                        <select id="debug-replay-speed">
+                            <option value="1">1x</option>
+                            <option value="2">2x</option>
+                            <option value="5">5x</option>
+                            <option value="10">10x</option>
+                        </select>
+                    </div>
+                    <p id="debug-bridge-status"></p>
+                </div>
+                <div class="debug-state" id="debug-state"></div>
             </div>
         `;
         
         document.body.appendChild(debugPanel);
+        this.setupBridgeDebugControls();
+        this.setupStateInspector();
+        
+        const perfBtn = document.getElementById('debug-perf-btn');
+        perfBtn?.addEventListener('click', () => {
+            this.togglePerformanceOverlay();
+            perfBtn.textContent = `${this.performanceOverlay.isVisible() ? 'Hide' : 'Show'} Overlay`;
+        });
         
         // Close button
         const closeBtn = document.getElementById('debug-close');
@@ -214,13 +273,90 @@ export class UIManager {
         }
     }
     
+    private setupBridgeDebugControls(): void {
+        const bridge = window.gameUI && window.gameUI.unityBridge;
+        const recordBtn = document.getElementById('debug-record-btn') as HTMLButtonElement | null;
+        const replayFile = document.getElementById('debug-replay-file') as HTMLInputElement | null;
+        const replaySpeed = document.getElementById('debug-replay-speed') as HTMLSelectElement | null;
+        const status = document.getElementById('debug-bridge-status');
+        
+        if (!bridge) {
+            if (status) status.textContent = 'Unity bridge not available';
+            if (recordBtn) recordBtn.disabled = true;
+            if (replayFile) replayFile.disabled = true;
+            return;
+        }
+        
+        const updateRecordButton = () => {
+            if (recordBtn) {
+                recordBtn.textContent = bridge.getDebugInfo().isRecording ? 'Stop & Download' : 'Start Recording';
+            }
+        };
+        updateRecordButton();
+        
+        recordBtn?.addEventListener('click', () => {
+            if (bridge.getDebugInfo().isRecording) {
+                const session = bridge.stopRecording();
+                if (status) status.textContent = `Saved ${session.entries.length} messages`;
+            } else {
+                bridge.startRecording();
+                if (status) status.textContent = 'Recording...';
+            }
+            updateRecordButton();
+        });
+        
+        replayFile?.addEventListener('change', async () => {
+            const file = replayFile.files && replayFile.files[0];
+            if (!file) return;
+            
+            try {
+                const session = BridgeRecorder.parse(await file.text());
+                const speed = Number(replaySpeed?.value || 1);
+                if (status) status.textContent = `Replaying ${file.name} at ${speed}x...`;
+                await bridge.replaySession(session, speed);
+                if (status) status.textContent = 'Replay finished';
+            } catch (error) {
+                console.error('Failed to replay bridge session:', error);
+                this.showError(`Replay failed: ${(error as Error).message}`);
+            } finally {
+                replayFile.value = '';
+            }
+        });
+    }
+    
+    private setupStateInspector(): void {
+        const store = window.gameUI && window.gameUI.store;
+        const container = document.getElementById('debug-state');
+        if (!container) return;
+        
+        if (!store) {
+            container.innerHTML = '<h4>Game State</h4><p>Game store not available</p>';
+            return;
+        }
+        this.stateInspector = new StateInspector(container, store);
+    }
+    
     private hideDebugPanel(): void {
+        if (this.stateInspector) {
+            this.stateInspector.destroy();
+            this.stateInspector = null;
+        }
+        
         const debugPanel = document.getElementById('debug-panel');
         if (debugPanel) {
             debugPanel.remove();
         }
     }
     
+    // Performance overlay
+    recordPerformanceSample(sample: UnityPerformance): void {
+        this.performanceOverlay.addSample(sample);
+    }
+    
+    togglePerformanceOverlay(): void {
+        this.performanceOverlay.toggle();
+    }
+    
     // Component management
     getComponent(name: string): any {
         return this.components.get(name);
@@ -6,6 +6,10 @@
 import { AuthFormData, AuthMode, LoginRequest, RegisterRequest } from '../../types/game-types';
 import { apiService } from '../services/api-service';
 import { PasswordStrengthIndicator } from '../password-strength';
+import { assetCache } from '../services/asset-cache';
+
+// Account actions need the backend; guest play only needs the cached game files
+const ONLINE_ONLY_BUTTONS = ['show-login-btn', 'show-register-btn'];
 
 export class WelcomeScene {
     private elements: {
@@ -101,6 +105,10 @@ export class WelcomeScene {
             }
         });
         
+        // Connectivity changes
+        window.addEventListener('online', () => this.updateConnectivity());
+        window.addEventListener('offline', () => this.updateConnectivity());
+        
         // Escape key to go back
         document.addEventListener('keydown', (e) => {
             if (e.key === 'Escape' && this.isVisible) {
@@ -119,6 +127,37 @@ export class WelcomeScene {
             this.elements.container.classList.add('show');
         }
         this.setMode('welcome');
+        this.updateConnectivity();
+    }
+    
+    private async updateConnectivity(): Promise<void> {
+        const offline = !navigator.onLine;
+        const guestBtn = document.getElementById('guest-play-btn') as HTMLButtonElement | null;
+        
+        ONLINE_ONLY_BUTTONS.forEach(buttonId => {
+            const button = document.getElementById(buttonId) as HTMLButtonElement | null;
+            if (button) {
+                button.disabled = offline;
+            }
+        });
+        
+        if (!offline) {
+            if (guestBtn) guestBtn.disabled = false;
+            return;
+        }
+        
+        if (this.currentMode !== 'welcome') {
+            this.setMode('welcome');
+        }
+        
+        const cached = await assetCache.isBuildCached();
+        if (guestBtn) guestBtn.disabled = !cached;
+        
+        if (cached) {
+            this.showMessage('You are offline. Guest play uses the game files saved on this device.', 'info');
+        } else {
+            this.showMessage('You are offline and the game has not been downloaded yet. Connect to the internet to play.', 'error');
+        }
     }
     
     hide(): void {
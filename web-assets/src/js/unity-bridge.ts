@@ -3,129 +3,448 @@
  * Handles communication between Unity and HTML/CSS UI
  */
 
-import { UnityInstance, UnityMessage } from '../types/unity-types';
-import { EventHandler } from '../types/game-types';
+import {
+    UnityInstance,
+    UnityMessageQueue,
+    UnityMethod,
+    UnityBridgeConfig,
+    UnityRequest,
+    UnityResponse,
+    UnityError,
+    UnityValidationError,
+    UnityToHTMLInterface,
+    UnityLoadingState,
+    UnityLoadingStatus,
+    UnityLoaderGeneration,
+    UnityGameObject,
+    UnityMethodRoutes,
+    UnityMethodPayloads,
+    UnityMethodResults,
+    UnityCombatData,
+    UnityProtocolStatus,
+    UnityCrashReport,
+    UnityRecoveryStatus,
+    UnityQualityRequest,
+    UnityDeviceProfileRequest,
+    UnityPauseRequest,
+    UnityResumeRequest,
+    BridgeSession
+} from '../types/unity-types';
+import { EventHandler, UnityEventMap } from '../types/game-types';
+import { UnityBridgeError } from './bridge/unity-error';
+import { UNITY_PAYLOAD_SCHEMAS, UNITY_RESULT_SCHEMAS, PayloadIssue, validatePayload } from './bridge/payload-schemas';
+import { createHandshake, negotiateProtocol } from './bridge/protocol';
+import { FrameCoalescer } from './bridge/frame-coalescer';
+import { UnityCrashMonitor } from './bridge/crash-monitor';
+import type { MockUnityInstance } from './bridge/mock-unity-runtime';
+import { BridgeRecorder, BridgeReplayer } from './bridge/bridge-recorder';
+import { DEFAULT_METHOD_ROUTES } from './bridge/unity-routes';
+import { UnityOutboundQueue, QueueDropReason } from './bridge/message-queue';
+import { EventListener, TypedEventEmitter, Unsubscribe, WildcardListener } from './services/event-emitter';
+import {
+    DOWNLOAD_COMPLETE_PROGRESS,
+    detectLoaderGeneration,
+    injectLoaderScript,
+    instantiateUnity,
+    resolveBuildPaths
+} from './bridge/unity-loader';
+
+interface PendingRequest {
+    method: UnityMethod;
+    data: string;
+    gameObject: string;
+    config: UnityBridgeConfig;
+    attempts: number;
+    timer: ReturnType<typeof setTimeout> | null;
+    // Requests coalesced into this one settle together with it
+    followers: PendingRequest[];
+    resolve: (result: any) => void;
+    reject: (error: UnityBridgeError) => void;
+}
+
+// Production builds always load the real WebGL build; the mock runtime is left out of their bundle
+const IS_DEVELOPMENT = process.env.NODE_ENV !== 'production';
+
+// In development the runtime is picked with UNITY_RUNTIME/UNITY_SCENARIO at build time or ?unity=mock&scenario=... in the URL
+function resolveRuntimeConfig(): Pick<UnityBridgeConfig, 'runtime' | 'mockScenario' | 'loadTimeout'> {
+    const env = (typeof process !== 'undefined' && process.env) || {};
+    const params = IS_DEVELOPMENT && typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : null;
+    const runtime = IS_DEVELOPMENT ? params?.get('unity') || env.UNITY_RUNTIME : 'webgl';
+    const loadTimeout = parseInt(env.UNITY_LOAD_TIMEOUT || '', 10);
+    
+    return {
+        runtime: runtime === 'mock' ? 'mock' : 'webgl',
+        mockScenario: params?.get('scenario') || env.UNITY_SCENARIO || 'idle',
+        ...(loadTimeout > 0 ? { loadTimeout } : {})
+    };
+}
+
+const LOADING_TRANSITIONS: Record<UnityLoadingState, UnityLoadingState[]> = {
+    idle: ['loading'],
+    loading: ['ready', 'error'],
+    ready: ['loading', 'error'],
+    error: ['loading']
+};
+
+const DEFAULT_BRIDGE_CONFIG: UnityBridgeConfig = {
+    gameObject: 'HybridUIManager',
+    timeout: 10000,
+    retryAttempts: 2,
+    maxQueueSize: 100,
+    persistCriticalMessages: true,
+    loadTimeout: 60000,
+    coalesceFrames: true,
+    maxRecoveryAttempts: 2
+};
+
+// Requests that are safe to resend after a timeout; a resent mutation such as UseItem could apply twice
+// when Unity's answer was only slow, so other methods retry only when an invoke() opts in with retryAttempts
+const RETRYABLE_METHODS: UnityMethod[] = ['UIReady', 'SaveGame', 'LoadGame'];
+
+// Crashes older than this no longer count against maxRecoveryAttempts
+const RECOVERY_WINDOW = 5 * 60 * 1000;
 
 export class UnityBridge {
     private unityInstance: UnityInstance | null = null;
     public isReady: boolean = false;
-    private eventListeners: Map<string, EventHandler[]> = new Map();
-    private messageQueue: UnityMessage[] = [];
+    private config: UnityBridgeConfig;
+    private events: TypedEventEmitter<UnityEventMap> = new TypedEventEmitter('Unity');
+    private messageQueue: UnityOutboundQueue;
+    private pendingRequests: Map<string, PendingRequest> = new Map();
+    private requestCounter: number = 0;
+    private recorder: BridgeRecorder = new BridgeRecorder();
+    private replayer: BridgeReplayer = new BridgeReplayer();
+    private routes: UnityMethodRoutes;
+    private protocolStatus: UnityProtocolStatus | null = null;
+    private frameCoalescer: FrameCoalescer = new FrameCoalescer((event, payload) => {
+        this.emit(event as keyof UnityEventMap, payload);
+    });
+    private loadingStatus: UnityLoadingStatus = { state: 'idle', previous: 'idle', progress: 0 };
+    private crashMonitor: UnityCrashMonitor = new UnityCrashMonitor(crash => this.handleCrash(crash));
+    private crashTimes: number[] = [];
+    private snapshotProvider: (() => Record<string, any> | null) | null = null;
     
-    constructor() {
-        // Initialize properties are set above
+    constructor(config: Partial<UnityBridgeConfig> = {}) {
+        this.config = { ...DEFAULT_BRIDGE_CONFIG, ...resolveRuntimeConfig(), ...config };
+        this.routes = { ...DEFAULT_METHOD_ROUTES, ...config.routes };
+        this.messageQueue = new UnityOutboundQueue({
+            maxSize: this.config.maxQueueSize || DEFAULT_BRIDGE_CONFIG.maxQueueSize!,
+            persistCritical: !!this.config.persistCriticalMessages,
+            onDrop: (dropped, reason, replacement) => {
+                this.handleQueueDrop(dropped, reason, replacement);
+            },
+            onBackpressure: (size, maxSize) => {
+                this.emit('QueueBackpressure', { size, maxSize });
+            }
+        });
+        this.messageQueue.takeRestored().forEach(entry => this.reissueRestored(entry));
+    }
+    
+    // A request queued before a reload is sent again as a new request, so its response is tracked
+    private reissueRestored(entry: UnityMessageQueue): void {
+        let payload: unknown;
+        try {
+            payload = (JSON.parse(entry.data) as UnityRequest).payload;
+        } catch (error) {
+            console.warn(`Dropped restored ${entry.method}, its data could not be read:`, error);
+            return;
+        }
+        
+        this.invoke(entry.method, payload as UnityMethodPayloads[typeof entry.method])
+            .then(() => console.log(`✅ Unity confirmed ${entry.method} restored from the last page`))
+            .catch(error => console.warn(`Restored ${entry.method} failed:`, error));
     }
     
     async init(): Promise<void> {
         try {
             console.log('🔗 Initializing Unity Bridge...');
+            this.setLoadingState('loading');
             
-            // Wait for Unity to load
-            await this.waitForUnity();
-            
-            // Setup Unity communication
+            // Setup Unity communication before the runtime can call back
             this.setupUnityCommunication();
             
+            // Wait for Unity to load
+            await this.loadRuntime();
+            
             this.isReady = true;
+            this.setLoadingState('ready');
             console.log('✅ Unity Bridge initialized');
             
             // Process queued messages
             this.processMessageQueue();
+            this.startRuntime();
             
         } catch (error) {
             console.error('❌ Failed to initialize Unity Bridge:', error);
+            this.setLoadingState('error', {
+                code: 'LOAD_FAILED',
+                message: (error as Error).message || String(error)
+            });
             throw error;
         }
     }
     
+    private async loadRuntime(): Promise<void> {
+        if (this.config.runtime === 'mock') {
+            await this.loadMockUnity();
+        } else {
+            await this.waitForUnity();
+        }
+    }
+    
+    private startRuntime(): void {
+        const canvas = document.getElementById('unity-canvas') as HTMLCanvasElement | null;
+        const paths = resolveBuildPaths(this.config.build);
+        this.crashMonitor.attach(canvas, this.unityInstance?.Module, [paths.loaderPath, paths.frameworkPath, paths.codePath]);
+        
+        if (this.config.runtime === 'mock' && this.unityInstance) {
+            (this.unityInstance as MockUnityInstance).start();
+        }
+    }
+    
     private async waitForUnity(): Promise<void> {
+        const paths = resolveBuildPaths(this.config.build);
+        
+        if (!detectLoaderGeneration()) {
+            injectLoaderScript(paths);
+        }
+        
         return new Promise<void>((resolve, reject) => {
-            const timeout = setTimeout(() => {
-                reject(new Error('Unity failed to load within timeout'));
-            }, 30000);
+            const loadTimeout = this.config.loadTimeout!;
+            let timedOut = false;
+            let timeout: ReturnType<typeof setTimeout>;
+            
+            // Slow downloads are fine as long as they keep moving, so every progress report resets the clock
+            const armTimeout = () => {
+                clearTimeout(timeout);
+                timeout = setTimeout(() => {
+                    timedOut = true;
+                    reject(new Error(`Unity made no loading progress for ${Math.round(loadTimeout / 1000)} seconds`));
+                }, loadTimeout);
+            };
             
             const checkUnity = () => {
-                if (typeof window.UnityLoader !== 'undefined' && document.getElementById('unity-canvas')) {
-                    clearTimeout(timeout);
-                    this.loadUnity();
-                    resolve();
+                if (timedOut) return;
+                
+                const generation = detectLoaderGeneration();
+                const canvas = document.getElementById('unity-canvas') as HTMLCanvasElement | null;
+                
+                if (generation && canvas) {
+                    this.loadUnity(generation, canvas, armTimeout).then(instance => {
+                        clearTimeout(timeout);
+                        if (timedOut) {
+                            // The load was already given up; a retry will start a fresh instance
+                            instance.Quit?.().catch(() => undefined);
+                            return;
+                        }
+                        this.unityInstance = instance;
+                        this.setupUnityCallbacks();
+                        resolve();
+                    }, error => {
+                        clearTimeout(timeout);
+                        reject(error);
+                    });
                 } else {
                     setTimeout(checkUnity, 100);
                 }
             };
             
+            armTimeout();
             checkUnity();
         });
     }
     
-    private loadUnity(): void {
+    private async loadUnity(
+        generation: UnityLoaderGeneration,
+        canvas: HTMLCanvasElement,
+        onProgress: () => void
+    ): Promise<UnityInstance> {
         try {
-            this.unityInstance = window.UnityLoader.instantiate(
-                document.getElementById('unity-canvas')!,
-                'Build/chaos-world.json',
-                {
-                    onProgress: (progress: number) => {
-                        this.updateLoadingProgress(progress);
-                    },
-                    Module: {
-                        onRuntimeInitialized: () => {
-                            console.log('🎮 Unity runtime initialized');
-                            this.setupUnityCallbacks();
-                        }
-                    }
+            console.log(`🎮 Loading Unity with the ${generation} loader`);
+            this.loadingStatus.loader = generation;
+            
+            const instance = await instantiateUnity(
+                generation,
+                canvas,
+                resolveBuildPaths(this.config.build),
+                (progress: number) => {
+                    onProgress();
+                    this.updateLoadingProgress(progress);
                 }
             );
+            
+            console.log('🎮 Unity runtime initialized');
+            return instance;
         } catch (error) {
             console.error('❌ Failed to load Unity:', error);
             throw error;
         }
     }
     
-    private updateLoadingProgress(progress: number): void {
-        const progressBar = document.getElementById('loading-progress');
-        const progressText = document.getElementById('loading-text');
-        
-        if (progressBar) {
-            progressBar.style.width = `${progress * 100}%`;
+    private async loadMockUnity(): Promise<void> {
+        // process.env.NODE_ENV is replaced at build time, so production bundles never reach the import
+        if (process.env.NODE_ENV !== 'production') {
+            const { MockUnityInstance } = await import('./bridge/mock-unity-runtime');
+            console.log(`🧪 Using mock Unity runtime (scenario: ${this.config.mockScenario})`);
+            this.loadingStatus.loader = 'mock';
+            this.unityInstance = new MockUnityInstance(this.config.mockScenario);
+            this.updateLoadingProgress(1);
+            return;
         }
-        
-        if (progressText) {
-            progressText.textContent = `Loading... ${Math.round(progress * 100)}%`;
+        throw new Error('The mock Unity runtime is not part of production builds');
+    }
+    
+    // Loading state
+    private setLoadingState(state: UnityLoadingState, error?: UnityError): void {
+        const previous = this.loadingStatus.state;
+        if (!LOADING_TRANSITIONS[previous].includes(state)) {
+            console.warn(`Ignoring Unity loading transition ${previous} -> ${state}`);
+            return;
         }
+        
+        this.loadingStatus = {
+            ...this.loadingStatus,
+            state,
+            previous,
+            progress: state === 'loading' ? 0 : state === 'ready' ? 1 : this.loadingStatus.progress,
+            stage: state === 'loading' ? 'download' : state === 'ready' ? 'ui-ready' : this.loadingStatus.stage,
+            error
+        };
+        this.emit('LoadingStateChanged', { ...this.loadingStatus });
+    }
+    
+    getLoadingState(): UnityLoadingState {
+        return this.loadingStatus.state;
+    }
+    
+    // Calls back immediately with the current status, then on every transition
+    onLoadingStateChange(callback: EventHandler<UnityLoadingStatus>): Unsubscribe {
+        const unsubscribe = this.on('LoadingStateChanged', callback);
+        callback({ ...this.loadingStatus });
+        return unsubscribe;
+    }
+    
+    private updateLoadingProgress(progress: number): void {
+        this.loadingStatus.progress = progress;
+        this.loadingStatus.stage = progress < DOWNLOAD_COMPLETE_PROGRESS
+            ? 'download'
+            : progress < 1 ? 'decompress' : 'runtime-init';
+        this.emit('LoadingProgress', { ...this.loadingStatus });
+    }
+    
+    // Starts loading again after a failed load or an unrecoverable crash
+    async retry(): Promise<void> {
+        if (this.loadingStatus.state !== 'error') return;
+        
+        this.crashTimes = [];
+        await this.init();
     }
     
     private setupUnityCommunication(): void {
         // Setup global functions for Unity to call
-        window.UnityToHTML = {
+        const handlers: UnityToHTMLInterface = {
             onPlayerStatsUpdated: (data: string) => {
-                this.emit('PlayerStatsUpdated', JSON.parse(data));
+                this.receive('PlayerStatsUpdated', data);
             },
             
             onCultivationProgress: (data: string) => {
-                this.emit('CultivationProgress', JSON.parse(data));
+                this.receive('CultivationProgress', data);
             },
             
             onCombatStarted: (data: string) => {
-                this.emit('CombatStarted', JSON.parse(data));
+                this.receive('CombatStarted', data);
             },
             
             onCombatEnded: (data: string) => {
-                this.emit('CombatEnded', JSON.parse(data));
+                this.receive('CombatEnded', data);
             },
             
             onInventoryUpdated: (data: string) => {
-                this.emit('InventoryUpdated', JSON.parse(data));
+                this.receive('InventoryUpdated', data);
             },
             
             onGameStateChanged: (data: string) => {
-                this.emit('GameStateChanged', JSON.parse(data));
+                this.receive('GameStateChanged', data);
+            },
+            
+            onPerformanceSample: (data: string) => {
+                this.receive('PerformanceSample', data);
+            },
+            
+            onResponse: (data: string) => {
+                const response = this.parsePayload('Response', data);
+                if (response) {
+                    this.handleResponse(response);
+                } else {
+                    this.rejectMalformedResponse(data);
+                }
             },
             
             onError: (message: string) => {
                 console.error('Unity Error:', message);
-                this.emit('Error', message);
+                const error: UnityError = { code: 'UNITY_ERROR', message };
+                this.emit('Error', error);
+                this.crashMonitor.checkUnityError(message);
             }
         };
+        
+        window.UnityToHTML = this.withRecording(handlers);
+    }
+    
+    // Wraps every callback so inbound traffic reaches the recorder before it is handled
+    private withRecording(handlers: UnityToHTMLInterface): UnityToHTMLInterface {
+        const recorded = { ...handlers };
+        
+        (Object.keys(handlers) as Array<keyof UnityToHTMLInterface>).forEach(callback => {
+            recorded[callback] = (data: string) => {
+                this.recorder.recordInbound(callback, data);
+                handlers[callback](data);
+            };
+        });
+        
+        return recorded;
+    }
+    
+    private receive(event: keyof UnityEventMap, data: string): void {
+        const payload = this.parsePayload(event, data);
+        if (payload === null) return;
+        
+        if (this.config.coalesceFrames) {
+            this.frameCoalescer.push(event, payload);
+        } else {
+            this.emit(event, payload);
+        }
+    }
+    
+    // Parses and validates a payload; invalid ones are reported on the Error channel
+    private parsePayload(event: string, data: string): any | null {
+        let payload: unknown;
+        try {
+            payload = JSON.parse(data);
+        } catch (error) {
+            this.rejectPayload(event, { path: '$', expected: 'JSON', received: 'unparseable string' });
+            return null;
+        }
+        
+        const schema = UNITY_PAYLOAD_SCHEMAS[event];
+        const issue = schema ? validatePayload(payload, schema) : null;
+        if (issue) {
+            this.rejectPayload(event, issue);
+            return null;
+        }
+        
+        return payload;
+    }
+    
+    private rejectPayload(event: string, issue: PayloadIssue): void {
+        const error: UnityValidationError = {
+            code: 'INVALID_PAYLOAD',
+            message: `Invalid ${event} payload at ${issue.path}: expected ${issue.expected}, received ${issue.received}`,
+            event,
+            ...issue
+        };
+        console.error('Unity payload rejected:', error.message);
+        this.emit('Error', error);
     }
     
     private setupUnityCallbacks(): void {
@@ -135,57 +454,275 @@ export class UnityBridge {
         }
     }
     
-    sendToUnity(methodName: string, data: string = ''): void {
+    sendToUnity(methodName: string, data: string = '', gameObject?: string): void {
+        const target = this.resolveGameObject(methodName, gameObject);
+        
         if (!this.isReady || !this.unityInstance) {
             console.warn('Unity not ready, queuing message:', methodName, data);
-            this.messageQueue.push({ method: methodName, data });
+            this.messageQueue.enqueue({ method: methodName, data, gameObject: target });
             return;
         }
         
         try {
-            this.unityInstance.SendMessage('HybridUIManager', methodName, data);
+            this.postMessage(target, methodName, data);
         } catch (error) {
             console.error('Failed to send message to Unity:', error);
         }
     }
     
-    private processMessageQueue(): void {
-        while (this.messageQueue.length > 0) {
-            const { method, data } = this.messageQueue.shift()!;
-            this.sendToUnity(method, data);
+    // Typed fire-and-forget send; the payload is serialized to JSON
+    send<M extends UnityMethod>(method: M, payload: UnityMethodPayloads[M], gameObject?: UnityGameObject): void {
+        if (!this.isMethodSupported(method)) {
+            console.warn(`Unity build does not support ${method}, message dropped`);
+            return;
         }
+        this.sendToUnity(method, this.serializePayload(payload), gameObject);
     }
     
-    // Event system
-    on(event: string, callback: EventHandler): void {
-        if (!this.eventListeners.has(event)) {
-            this.eventListeners.set(event, []);
+    private serializePayload(payload: unknown): string {
+        return payload === null || payload === undefined ? '' : JSON.stringify(payload);
+    }
+    
+    // Routing
+    private resolveGameObject(method: string, override?: string): string {
+        return override || this.routes[method as UnityMethod] || this.config.gameObject;
+    }
+    
+    getRoute(method: UnityMethod): string {
+        return this.resolveGameObject(method);
+    }
+    
+    setRoute(method: UnityMethod, gameObject: UnityGameObject): void {
+        this.routes[method] = gameObject;
+    }
+    
+    private postMessage(gameObject: string, method: string, data: string): void {
+        this.recorder.recordOutbound(gameObject, method, data);
+        this.unityInstance!.SendMessage(gameObject, method, data);
+    }
+    
+    // Request/response
+    invoke<M extends UnityMethod>(
+        method: M,
+        payload: UnityMethodPayloads[M],
+        options: Partial<UnityBridgeConfig> = {}
+    ): Promise<UnityMethodResults[M]> {
+        if (!this.isMethodSupported(method)) {
+            return Promise.reject(new UnityBridgeError(
+                'UNSUPPORTED_METHOD',
+                `This Unity build does not support ${method}`
+            ));
+        }
+        
+        const requestId = this.createRequestId();
+        const request: UnityRequest<UnityMethodPayloads[M]> = { requestId, payload };
+        const config = { ...this.config, ...options };
+        if (!RETRYABLE_METHODS.includes(method) && options.retryAttempts === undefined) {
+            config.retryAttempts = 0;
+        }
+        
+        return new Promise<UnityMethodResults[M]>((resolve, reject) => {
+            this.pendingRequests.set(requestId, {
+                method,
+                data: JSON.stringify(request),
+                gameObject: this.resolveGameObject(method, options.gameObject),
+                config,
+                attempts: 0,
+                timer: null,
+                followers: [],
+                resolve,
+                reject
+            });
+            this.dispatchRequest(requestId);
+        });
+    }
+    
+    private createRequestId(): string {
+        this.requestCounter++;
+        return `req-${Date.now().toString(36)}-${this.requestCounter}`;
+    }
+    
+    private dispatchRequest(requestId: string): void {
+        const pending = this.pendingRequests.get(requestId);
+        if (!pending) return;
+        
+        if (!this.isReady || !this.unityInstance) {
+            // The timeout starts once processMessageQueue posts it
+            this.messageQueue.enqueue({
+                method: pending.method,
+                data: pending.data,
+                gameObject: pending.gameObject,
+                requestId
+            });
+            return;
+        }
+        
+        try {
+            this.postMessage(pending.gameObject, pending.method, pending.data);
+            this.startRequestTimer(requestId);
+        } catch (error) {
+            this.rejectRequest(requestId, new UnityBridgeError(
+                'SEND_FAILED',
+                `Failed to send ${pending.method} to Unity: ${(error as Error).message}`
+            ));
+        }
+    }
+    
+    // Counts an attempt once the request has actually reached Unity
+    private startRequestTimer(requestId: string): void {
+        const pending = this.pendingRequests.get(requestId);
+        if (!pending) return;
+        
+        pending.attempts++;
+        pending.timer = setTimeout(() => {
+            this.handleRequestTimeout(requestId);
+        }, pending.config.timeout);
+    }
+    
+    private handleRequestTimeout(requestId: string): void {
+        const pending = this.pendingRequests.get(requestId);
+        if (!pending) return;
+        
+        if (pending.attempts <= pending.config.retryAttempts) {
+            console.warn(`Unity request ${pending.method} timed out, retrying (${pending.attempts}/${pending.config.retryAttempts})`);
+            this.dispatchRequest(requestId);
+            return;
         }
-        this.eventListeners.get(event)!.push(callback);
+        
+        this.rejectRequest(requestId, new UnityBridgeError(
+            'TIMEOUT',
+            `Unity did not answer ${pending.method} within ${pending.config.timeout}ms`
+        ));
     }
     
-    off(event: string, callback: EventHandler): void {
-        if (this.eventListeners.has(event)) {
-            const listeners = this.eventListeners.get(event)!;
-            const index = listeners.indexOf(callback);
-            if (index > -1) {
-                listeners.splice(index, 1);
+    private handleResponse(response: UnityResponse): void {
+        if (!this.pendingRequests.has(response.requestId)) {
+            // Late answer to a request that already timed out or was retried
+            return;
+        }
+        
+        const method = this.pendingRequests.get(response.requestId)!.method;
+        const issue = response.success ? validatePayload(response.result, UNITY_RESULT_SCHEMAS[method]) : null;
+        if (issue) {
+            this.rejectPayload(`${method} result`, issue);
+            this.rejectRequest(response.requestId, new UnityBridgeError(
+                'INVALID_RESPONSE',
+                `Unity answered ${method} with an invalid result at ${issue.path}: expected ${issue.expected}, received ${issue.received}`
+            ));
+            return;
+        }
+        
+        this.takeRequest(response.requestId).forEach(pending => {
+            if (response.success) {
+                pending.resolve(response.result);
+            } else {
+                pending.reject(UnityBridgeError.fromUnityError(response.error));
             }
+        });
+    }
+    
+    // A response that failed validation still settles its request when the requestId can be read,
+    // so the caller sees the error instead of waiting out the timeout
+    private rejectMalformedResponse(data: string): void {
+        let requestId: unknown;
+        try {
+            requestId = JSON.parse(data).requestId;
+        } catch (error) {
+            return;
+        }
+        
+        const pending = typeof requestId === 'string' ? this.pendingRequests.get(requestId) : undefined;
+        if (!pending) return;
+        
+        this.rejectRequest(requestId as string, new UnityBridgeError(
+            'INVALID_RESPONSE',
+            `Unity answered ${pending.method} with a malformed response`
+        ));
+    }
+    
+    private rejectRequest(requestId: string, error: UnityBridgeError): void {
+        this.takeRequest(requestId).forEach(pending => pending.reject(error));
+    }
+    
+    // Removes a request and returns it together with the requests coalesced into it
+    private takeRequest(requestId: string): PendingRequest[] {
+        const pending = this.pendingRequests.get(requestId);
+        if (!pending) return [];
+        
+        this.clearRequest(requestId);
+        return [pending, ...pending.followers];
+    }
+    
+    private handleQueueDrop(dropped: UnityMessageQueue, reason: QueueDropReason, replacement?: UnityMessageQueue): void {
+        if (!dropped.requestId) return;
+        
+        const target = replacement && replacement.requestId ? this.pendingRequests.get(replacement.requestId) : undefined;
+        if (reason === 'coalesced' && target) {
+            target.followers.push(...this.takeRequest(dropped.requestId));
+            return;
+        }
+        
+        this.rejectRequest(dropped.requestId, new UnityBridgeError(
+            'QUEUE_FULL',
+            `${dropped.method} was dropped from the Unity message queue (${reason})`
+        ));
+    }
+    
+    private clearRequest(requestId: string): void {
+        const pending = this.pendingRequests.get(requestId);
+        if (pending && pending.timer) {
+            clearTimeout(pending.timer);
         }
+        this.pendingRequests.delete(requestId);
     }
     
-    private emit(event: string, data: any): void {
-        if (this.eventListeners.has(event)) {
-            this.eventListeners.get(event)!.forEach(callback => {
-                try {
-                    callback(data);
-                } catch (error) {
-                    console.error('Error in event callback:', error);
+    private processMessageQueue(): void {
+        while (!this.messageQueue.isEmpty()) {
+            const entry = this.messageQueue.dequeue()!;
+            
+            try {
+                this.postMessage(entry.gameObject || this.resolveGameObject(entry.method), entry.method, entry.data);
+                if (entry.requestId) {
+                    this.startRequestTimer(entry.requestId);
                 }
-            });
+            } catch (error) {
+                if (entry.retries < this.config.retryAttempts) {
+                    this.messageQueue.requeue(entry);
+                    continue;
+                }
+                
+                console.error('Failed to send queued message to Unity:', entry.method, error);
+                if (entry.requestId) {
+                    this.rejectRequest(entry.requestId, new UnityBridgeError(
+                        'SEND_FAILED',
+                        `Failed to send ${entry.method} to Unity: ${(error as Error).message}`
+                    ));
+                }
+            }
         }
     }
     
+    // Event system
+    on<K extends keyof UnityEventMap>(event: K, callback: EventListener<UnityEventMap[K]>): Unsubscribe {
+        return this.events.on(event, callback);
+    }
+    
+    once<K extends keyof UnityEventMap>(event: K, callback: EventListener<UnityEventMap[K]>): Unsubscribe {
+        return this.events.once(event, callback);
+    }
+    
+    off<K extends keyof UnityEventMap>(event: K, callback: EventListener<UnityEventMap[K]>): void {
+        this.events.off(event, callback);
+    }
+    
+    onAny(callback: WildcardListener<UnityEventMap>): Unsubscribe {
+        return this.events.onAny(callback);
+    }
+    
+    private emit<K extends keyof UnityEventMap>(event: K, data: UnityEventMap[K]): void {
+        this.events.emit(event, data);
+    }
+    
     // Utility methods
     
     getUnityInstance(): UnityInstance | null {
@@ -194,48 +731,253 @@ export class UnityBridge {
     
     // Game-specific methods
     startCultivation(): void {
-        this.sendToUnity('StartCultivation');
+        this.send('StartCultivation', null);
     }
     
     stopCultivation(): void {
-        this.sendToUnity('StopCultivation');
+        this.send('StopCultivation', null);
+    }
+    
+    realmBreakthrough(realm: string): void {
+        this.send('RealmBreakthrough', { realm });
     }
     
-    useItem(itemId: string): void {
-        this.sendToUnity('UseItem', itemId);
+    useItem(itemId: string): Promise<void> {
+        return this.invoke('UseItem', { itemId });
     }
     
-    equipItem(itemId: string, slot: string): void {
-        this.sendToUnity('EquipItem', JSON.stringify({ itemId, slot }));
+    equipItem(itemId: string, slot: string): Promise<void> {
+        return this.invoke('EquipItem', { itemId, slot });
+    }
+    
+    dropItem(itemId: string): void {
+        this.send('DropItem', { itemId });
     }
     
     startCombat(): void {
-        this.sendToUnity('StartCombat');
+        this.send('StartCombat', null);
     }
     
-    useCombatTechnique(techniqueId: string): void {
-        this.sendToUnity('UseCombatTechnique', techniqueId);
+    useCombatTechnique(techniqueId: string): Promise<UnityCombatData | null> {
+        return this.invoke('UseCombatTechnique', { techniqueId });
     }
     
     travelToLocation(locationId: string): void {
-        this.sendToUnity('TravelToLocation', locationId);
+        this.send('TravelToLocation', { locationId });
+    }
+    
+    saveGame(saveData: Record<string, any> | null = null): Promise<void> {
+        return this.invoke('SaveGame', saveData);
+    }
+    
+    loadGame(saveData: Record<string, any> | null = null): void {
+        this.send('LoadGame', saveData);
+    }
+    
+    setQualitySettings(request: UnityQualityRequest): void {
+        this.send('SetQualitySettings', request);
+    }
+    
+    applyDeviceProfile(request: UnityDeviceProfileRequest): void {
+        this.send('ApplyDeviceProfile', request);
+    }
+    
+    pauseGame(request: UnityPauseRequest): void {
+        this.send('PauseGame', request);
+    }
+    
+    resumeGame(request: UnityResumeRequest): void {
+        this.send('ResumeGame', request);
+    }
+    
+    // Crash recovery
+    
+    // Supplies the state replayed through LoadGame after Unity is re-created
+    setRecoverySnapshot(provider: () => Record<string, any> | null): void {
+        this.snapshotProvider = provider;
+    }
+    
+    private handleCrash(crash: UnityCrashReport): void {
+        // Failures while loading are reported by init()
+        if (!this.isReady) return;
+        
+        console.error(`❌ Unity crashed (${crash.reason}):`, crash.message);
+        
+        this.crashTimes = this.crashTimes.filter(time => crash.timestamp - time < RECOVERY_WINDOW);
+        this.crashTimes.push(crash.timestamp);
+        
+        const status: UnityRecoveryStatus = { crash, attempt: this.crashTimes.length, restored: false };
+        const snapshot = this.takeSnapshot();
+        
+        this.isReady = false;
+        this.teardownUnity(crash);
+        
+        if (status.attempt > this.config.maxRecoveryAttempts!) {
+            this.setLoadingState('error', { code: 'UNITY_CRASHED', message: crash.message });
+            this.emit('UnityRecoveryFailed', status);
+            return;
+        }
+        
+        this.emit('UnityCrashed', status);
+        this.recover(status, snapshot);
+    }
+    
+    private takeSnapshot(): Record<string, any> | null {
+        if (!this.snapshotProvider) return null;
+        
+        try {
+            const snapshot = this.snapshotProvider();
+            return snapshot ? JSON.parse(JSON.stringify(snapshot)) : null;
+        } catch (error) {
+            console.error('Failed to snapshot game state for recovery:', error);
+            return null;
+        }
+    }
+    
+    private teardownUnity(crash: UnityCrashReport): void {
+        this.crashMonitor.detach();
+        this.frameCoalescer.flush();
+        
+        // Requests already posted died with the runtime
+        Array.from(this.pendingRequests.keys()).forEach(requestId => {
+            this.rejectRequest(requestId, new UnityBridgeError(
+                'UNITY_CRASHED',
+                `Unity crashed before answering: ${crash.message}`
+            ));
+        });
+        
+        const instance = this.unityInstance;
+        this.unityInstance = null;
+        
+        try {
+            instance?.Quit?.().catch(error => console.warn('Unity did not quit cleanly:', error));
+        } catch (error) {
+            console.warn('Unity did not quit cleanly:', error);
+        }
+        
+        // A canvas whose WebGL context was lost cannot host a new instance
+        const canvas = document.getElementById('unity-canvas');
+        if (canvas && this.config.runtime !== 'mock') {
+            canvas.replaceWith(canvas.cloneNode(false));
+        }
+    }
+    
+    private async recover(status: UnityRecoveryStatus, snapshot: Record<string, any> | null): Promise<void> {
+        console.log(`🔗 Recovering Unity (attempt ${status.attempt})...`);
+        this.setLoadingState('loading');
+        
+        try {
+            await this.loadRuntime();
+            
+            this.isReady = true;
+            this.setLoadingState('ready');
+            
+            // Restore the UI's view of the game before anything queued during the crash
+            if (snapshot) {
+                this.send('LoadGame', snapshot);
+            }
+            this.processMessageQueue();
+            this.startRuntime();
+            
+            console.log('✅ Unity recovered');
+            this.emit('UnityRecovered', { ...status, restored: !!snapshot });
+        } catch (error) {
+            console.error('❌ Failed to recover Unity:', error);
+            this.setLoadingState('error', {
+                code: 'UNITY_CRASHED',
+                message: (error as Error).message || String(error)
+            });
+            this.emit('UnityRecoveryFailed', status);
+        }
+    }
+    
+    // Protocol handshake
+    async performHandshake(): Promise<UnityProtocolStatus> {
+        let status: UnityProtocolStatus;
+        
+        try {
+            const remote = await this.invoke('UIReady', createHandshake(), { timeout: 5000, retryAttempts: 1 });
+            status = negotiateProtocol(remote);
+        } catch (error) {
+            status = negotiateProtocol(null, (error as Error).message);
+        }
+        
+        this.protocolStatus = status;
+        if (status.compatible && status.remote) {
+            console.log(`🤝 Unity protocol ${status.remote.protocolVersion} accepted`);
+        } else if (status.compatible) {
+            console.warn('⚠️ Unity handshake failed, falling back to the baseline features:', status.message);
+        } else {
+            console.error('❌ Unity protocol mismatch:', status.message);
+        }
+        
+        this.emit('ProtocolNegotiated', status);
+        return status;
+    }
+    
+    getProtocolStatus(): UnityProtocolStatus | null {
+        return this.protocolStatus;
+    }
+    
+    // Everything is allowed until the handshake says otherwise
+    isMethodSupported(method: UnityMethod): boolean {
+        if (!this.protocolStatus || method === 'UIReady') return true;
+        return !this.protocolStatus.unsupportedMethods.includes(method);
+    }
+    
+    // Record and replay
+    startRecording(): void {
+        this.recorder.start(this.getDebugInfo());
+        console.log('⏺️ Recording Unity bridge traffic');
+        this.emit('RecordingStarted', null);
     }
     
-    saveGame(): void {
-        this.sendToUnity('SaveGame');
+    stopRecording(download: boolean = true): BridgeSession {
+        const session = this.recorder.stop();
+        console.log(`⏹️ Recorded ${session.entries.length} bridge messages`);
+        
+        if (download) {
+            BridgeRecorder.download(session);
+        }
+        
+        this.emit('RecordingStopped', session);
+        return session;
+    }
+    
+    async replaySession(session: BridgeSession, speed: number = 1): Promise<void> {
+        console.log(`▶️ Replaying ${session.entries.length} bridge messages at ${speed}x`);
+        this.emit('ReplayStarted', { speed, entries: session.entries.length });
+        
+        await this.replayer.play(session, speed, (entry, index) => {
+            this.emit('ReplayProgress', { index, entry });
+        });
+        
+        this.emit('ReplayFinished', null);
     }
     
-    loadGame(): void {
-        this.sendToUnity('LoadGame');
+    stopReplay(): void {
+        this.replayer.stop();
     }
     
     // Debug methods
     getDebugInfo(): any {
         return {
             isReady: this.isReady,
+            isRecording: this.recorder.isRecording,
+            recordedMessages: this.recorder.getEntryCount(),
+            isReplaying: this.replayer.isReplaying,
+            runtime: this.config.runtime,
+            routes: { ...this.routes },
+            protocol: this.protocolStatus,
+            loadingState: this.loadingStatus.state,
+            loader: this.loadingStatus.loader,
             unityInstance: !!this.unityInstance,
-            queuedMessages: this.messageQueue.length,
-            eventListeners: Array.from(this.eventListeners.keys())
+            queuedMessages: this.messageQueue.size(),
+            queueByPriority: this.messageQueue.getStats(),
+            coalescedEvents: this.frameCoalescer.getPendingCount(),
+            recentCrashes: this.crashTimes.length,
+            pendingRequests: Array.from(this.pendingRequests.values()).map(request => request.method),
+            eventListeners: this.events.eventNames()
         };
     }
 }
\ No newline at end of file
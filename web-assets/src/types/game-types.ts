@@ -3,6 +3,17 @@
  * Type definitions for the Chaos World game
  */
 
+import {
+  BridgeSession,
+  BridgeTrafficEntry,
+  UnityBuildPaths,
+  UnityError,
+  UnityLoadingStatus,
+  UnityPerformance,
+  UnityProtocolStatus,
+  UnityRecoveryStatus
+} from './unity-types';
+
 // Player Data Types
 export interface PlayerData {
   level: number;
@@ -60,6 +71,14 @@ export interface EnemyData {
   type: string;
 }
 
+export interface CombatResult {
+  victory: boolean;
+  rewards?: {
+    experience: number;
+    items?: string[];
+  };
+}
+
 export type CombatStatus = 'fighting' | 'player-turn' | 'enemy-turn' | 'victory' | 'defeat' | 'fled';
 
 export interface CombatTechnique {
@@ -151,6 +170,61 @@ export interface PlayerStatsUpdate {
   cultivationProgress?: number;
 }
 
+// Save slots
+export interface SaveSlotMetadata {
+  realm: string;
+  level: number;
+  // Milliseconds played across sessions
+  playtime: number;
+  savedAt: number;
+}
+
+// Enough to compare two saves without loading them
+export interface SaveSummary {
+  realm: string;
+  realmLevel: number;
+  level: number;
+  experience: number;
+  playtime: number;
+}
+
+// What every save is stored as; version is SAVE_FORMAT_VERSION at the time of writing
+export interface SaveEnvelope {
+  version: number;
+  savedAt: number;
+  // Browser that wrote the save; 'unknown' for saves from before device stamps
+  deviceId: string;
+  summary: SaveSummary;
+  state: GameState;
+  // HMAC of the rest of the envelope; required from save format 3
+  signature?: string;
+}
+
+// How a local save and a Steam Cloud save that both changed since the last sync are settled
+export type SaveConflictRule = 'ask' | 'newest' | 'most-progress';
+
+export type SaveConflictSide = 'local' | 'cloud';
+
+export interface SaveComparison {
+  local: SaveEnvelope;
+  cloud: SaveEnvelope;
+  newer: SaveConflictSide | null;
+  moreProgress: SaveConflictSide | null;
+}
+
+export interface SaveSlotInfo {
+  id: string;
+  name: string;
+  autoSave: boolean;
+  metadata: SaveSlotMetadata;
+  // Small JPEG data URL of the game canvas
+  thumbnail?: string;
+}
+
+export interface SaveSlotRecord extends SaveSlotInfo {
+  state: GameState;
+}
+
 // Steam Integration Types
 export interface SteamConfig {
   steam: {
@@ -189,13 +263,47 @@ export interface GameEvent {
   timestamp: Date;
 }
 
-export interface UnityEvent extends GameEvent {
-  type: 'PlayerStatsUpdated' | 'CultivationProgress' | 'CombatStarted' | 'CombatEnded' | 'InventoryUpdated' | 'GameStateChanged' | 'Error';
+export interface TypedGameEvent<T extends string, D> extends GameEvent {
+  type: T;
+  data: D;
 }
 
-export interface SteamEvent extends GameEvent {
-  type: 'AchievementUnlocked' | 'CloudSaveLoaded' | 'FriendStatusChanged';
-}
+export type UnityEvent =
+  | TypedGameEvent<'PlayerStatsUpdated', PlayerStatsUpdate>
+  | TypedGameEvent<'CultivationProgress', CultivationProgress>
+  | TypedGameEvent<'CombatStarted', CombatData>
+  | TypedGameEvent<'CombatEnded', CombatResult>
+  | TypedGameEvent<'InventoryUpdated', InventoryData>
+  | TypedGameEvent<'GameStateChanged', GameState>
+  | TypedGameEvent<'PerformanceSample', UnityPerformance>
+  | TypedGameEvent<'Error', UnityError>
+  // Raised by the bridge itself rather than by Unity
+  | TypedGameEvent<'LoadingStateChanged', UnityLoadingStatus>
+  | TypedGameEvent<'LoadingProgress', UnityLoadingStatus>
+  | TypedGameEvent<'QueueBackpressure', { size: number; maxSize: number }>
+  | TypedGameEvent<'ProtocolNegotiated', UnityProtocolStatus>
+  | TypedGameEvent<'UnityCrashed', UnityRecoveryStatus>
+  | TypedGameEvent<'UnityRecovered', UnityRecoveryStatus>
+  | TypedGameEvent<'UnityRecoveryFailed', UnityRecoveryStatus>
+  | TypedGameEvent<'RecordingStarted', null>
+  | TypedGameEvent<'RecordingStopped', BridgeSession>
+  | TypedGameEvent<'ReplayStarted', { speed: number; entries: number }>
+  | TypedGameEvent<'ReplayProgress', { index: number; entry: BridgeTrafficEntry }>
+  | TypedGameEvent<'ReplayFinished', null>;
+
+export type SteamEvent =
+  | TypedGameEvent<'AchievementUnlocked', { id: string }>
+  // Raw save JSON from Steam Cloud, in any save format version
+  | TypedGameEvent<'CloudSaveLoaded', unknown>
+  | TypedGameEvent<'FriendStatusChanged', { id: string; online: boolean; playingGame: boolean }>;
+
+// Event name -> payload, e.g. EventPayloadMap<UnityEvent>['CombatEnded'] is CombatResult
+export type EventPayloadMap<E extends GameEvent> = {
+  [T in E['type']]: Extract<E, { type: T }>['data'];
+};
+
+export type UnityEventMap = EventPayloadMap<UnityEvent>;
+export type SteamEventMap = EventPayloadMap<SteamEvent>;
 
 // API Response Types
 export interface ApiResponse<T> {
@@ -226,11 +334,7 @@ export interface GameConfig {
     port: number;
     protocol: 'http' | 'https';
   };
-  unity: {
-    buildPath: string;
-    dataPath: string;
-    frameworkPath: string;
-  };
+  unity: UnityBuildPaths;
   steam: SteamConfig;
   ui: {
     theme: 'dark' | 'light';
@@ -241,6 +345,48 @@ export interface GameConfig {
   };
 }
 
+// The parts of GameConfig that webpack bakes into the bundle from config/
+export interface BundledGameConfig {
+  unity?: GameConfig['unity'];
+  steam?: Pick<SteamConfig, 'cloudSaves'>;
+}
+
+// Store Types
+// Every change to GameState goes through one of these actions
+export type GameAction =
+  | { type: 'player/statsUpdated'; stats: PlayerStatsUpdate }
+  // realm is set when the progress comes with a breakthrough
+  | { type: 'cultivation/progressed'; progress: number; realm?: string }
+  | { type: 'inventory/updated'; inventory: InventoryData }
+  // Unity is authoritative for the game flags
+  | { type: 'unity/stateChanged'; state: GameState }
+  | { type: 'save/loaded'; save: Partial<GameState> }
+  | { type: 'user/loggedIn'; level: number }
+  // Time travel from the debug panel
+  | { type: 'inspector/restored'; state: GameState; entryId: number };
+
+// Where a dispatched action came from
+export type GameActionSource = 'unity' | 'user' | 'cloud' | 'inspector';
+
+export type GameSelector<T> = (state: GameState) => T;
+
+// One recorded state change
+export interface GameStateEntry {
+  id: number;
+  time: number;
+  action: GameAction;
+  source: GameActionSource;
+  state: GameState;
+  previous: GameState;
+}
+
+export interface GameStateDiff {
+  // Dotted path, e.g. player.health or inventory.items.0.quantity
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
 // Utility Types
 export type Optional<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
 export type RequiredFields<T, K extends keyof T> = T & Required<Pick<T, K>>;
@@ -7,6 +7,7 @@
 declare global {
   interface Window {
     UnityLoader: any;
+    createUnityInstance?: CreateUnityInstance;
     unityInstance: any;
     UnityToHTML: UnityToHTMLInterface;
     gameUI: any;
@@ -18,15 +19,61 @@ export interface UnityLoader {
   instantiate(container: HTMLElement, buildUrl: string, config: UnityConfig): UnityInstance;
 }
 
+// Modern Unity Loader (2020.1+)
+export type CreateUnityInstance = (
+  canvas: HTMLCanvasElement,
+  config: UnityInstanceConfig,
+  onProgress?: (progress: number) => void
+) => Promise<UnityInstance>;
+
+export interface UnityInstanceConfig {
+  dataUrl: string;
+  frameworkUrl: string;
+  codeUrl: string;
+  streamingAssetsUrl?: string;
+  companyName?: string;
+  productName?: string;
+  productVersion?: string;
+}
+
+export type UnityLoaderGeneration = 'modern' | 'legacy';
+
+// Build file locations, relative to buildPath
+export interface UnityBuildPaths {
+  buildPath: string;
+  dataPath: string;
+  frameworkPath: string;
+  codePath?: string;
+  loaderPath?: string;
+  legacyConfigPath?: string;
+  streamingAssetsPath?: string;
+  // Change on every Unity deploy; names the offline cache so old builds are evicted
+  version?: string;
+}
+
+export interface UnityBuildCacheStatus {
+  // False when the browser has no service worker or Cache API support
+  supported: boolean;
+  version: string;
+  // True when every file needed to start the build is cached
+  cached: boolean;
+  cachedBytes: number;
+  // Bytes still to download, null when unknown
+  downloadBytes: number | null;
+  offline: boolean;
+}
+
 // Unity Instance Interface
 export interface UnityInstance {
   SendMessage(gameObject: string, method: string, value: string): void;
   Module: UnityModule;
+  Quit?: () => Promise<void>;
 }
 
 // Unity Module Interface
 export interface UnityModule {
   onRuntimeInitialized?: () => void;
+  onAbort?: (what: any) => void;
 }
 
 // Unity Configuration
@@ -43,6 +90,8 @@ export interface UnityToHTMLInterface {
   onCombatEnded: (data: string) => void;
   onInventoryUpdated: (data: string) => void;
   onGameStateChanged: (data: string) => void;
+  onResponse: (data: string) => void;
+  onPerformanceSample: (data: string) => void;
   onError: (message: string) => void;
 }
 
@@ -50,6 +99,20 @@ export interface UnityToHTMLInterface {
 export interface UnityMessage {
   method: string;
   data: any;
+  gameObject?: string;
+}
+
+// Unity Request/Response Types
+export interface UnityRequest<T = any> {
+  requestId: string;
+  payload: T;
+}
+
+export interface UnityResponse<T = any> {
+  requestId: string;
+  success: boolean;
+  result?: T;
+  error?: UnityError;
 }
 
 // Unity Event Data Types
@@ -119,6 +182,14 @@ export interface UnityInventoryData {
   maxWeight: number;
 }
 
+export interface UnityCombatResultData {
+  victory: boolean;
+  rewards?: {
+    experience: number;
+    items?: string[];
+  };
+}
+
 export interface UnityGameStateData {
   player: UnityPlayerStatsData;
   game: {
@@ -143,44 +214,204 @@ export type UnityMethod =
   | 'LoadGame'
   | 'RealmBreakthrough'
   | 'Defend'
-  | 'DropItem';
+  | 'DropItem'
+  | 'UIReady'
+  | 'UserLogin'
+  | 'UserLogout'
+  | 'SetQualitySettings'
+  | 'ApplyDeviceProfile'
+  | 'PauseGame'
+  | 'ResumeGame';
+
+// Payload sent with each Unity method (null when the method takes none)
+export interface UnityMethodPayloads {
+  UpdatePlayerStats: Partial<UnityPlayerStatsData>;
+  StartCultivation: null;
+  StopCultivation: null;
+  UseItem: { itemId: string };
+  EquipItem: { itemId: string; slot: string };
+  StartCombat: null;
+  UseCombatTechnique: { techniqueId: string };
+  TravelToLocation: { locationId: string };
+  SaveGame: Record<string, any> | null;
+  LoadGame: Record<string, any> | null;
+  RealmBreakthrough: { realm: string };
+  Defend: null;
+  DropItem: { itemId: string };
+  UIReady: UnityHandshake;
+  UserLogin: { userId: string; username: string; level: number };
+  UserLogout: null;
+  SetQualitySettings: UnityQualityRequest;
+  ApplyDeviceProfile: UnityDeviceProfileRequest;
+  PauseGame: UnityPauseRequest;
+  ResumeGame: UnityResumeRequest;
+}
+
+// Result Unity answers with when a method is invoked as a request
+export interface UnityMethodResults {
+  UpdatePlayerStats: void;
+  StartCultivation: void;
+  StopCultivation: void;
+  UseItem: void;
+  EquipItem: void;
+  StartCombat: UnityCombatData | null;
+  UseCombatTechnique: UnityCombatData | null;
+  TravelToLocation: void;
+  SaveGame: void;
+  LoadGame: UnityGameStateData | null;
+  RealmBreakthrough: void;
+  Defend: UnityCombatData | null;
+  DropItem: void;
+  UIReady: UnityHandshake;
+  UserLogin: void;
+  UserLogout: void;
+  SetQualitySettings: void;
+  ApplyDeviceProfile: void;
+  PauseGame: void;
+  ResumeGame: void;
+}
+
+// Protocol Handshake Types
+export interface UnityHandshake {
+  protocolVersion: string;
+  methods: string[];
+  events: string[];
+  buildVersion?: string;
+}
+
+export interface UnityProtocolStatus {
+  compatible: boolean;
+  localVersion: string;
+  remote: UnityHandshake | null;
+  unsupportedMethods: UnityMethod[];
+  unsupportedEvents: string[];
+  message?: string;
+}
+
+// Bridge Recording Types
+export interface BridgeTrafficEntry {
+  direction: 'inbound' | 'outbound';
+  // Milliseconds since the recording started
+  time: number;
+  // UnityToHTML callback for inbound entries, Unity method for outbound ones
+  name: string;
+  gameObject?: string;
+  data: string;
+}
+
+export interface BridgeSession {
+  version: number;
+  startedAt: string;
+  duration: number;
+  userAgent: string;
+  debugInfo: any;
+  entries: BridgeTrafficEntry[];
+}
 
 // Unity GameObject Names
 export type UnityGameObject = 'HybridUIManager' | 'GameManager' | 'PlayerController' | 'CultivationSystem' | 'CombatSystem' | 'InventorySystem';
 
+export type UnityMethodRoutes = Record<UnityMethod, UnityGameObject>;
+
 // Unity Communication Helper Types
+export type UnityRuntime = 'webgl' | 'mock';
+
 export interface UnityBridgeConfig {
+  // Fallback target for methods without a route
   gameObject: UnityGameObject;
+  routes?: Partial<UnityMethodRoutes>;
+  // Milliseconds an invoke() waits for Unity, counted from when the request is posted
   timeout: number;
+  // Resends after a timeout; only idempotent methods use it unless an invoke() passes it explicitly
   retryAttempts: number;
+  runtime?: UnityRuntime;
+  mockScenario?: string;
+  build?: Partial<UnityBuildPaths>;
+  maxQueueSize?: number;
+  persistCriticalMessages?: boolean;
+  // Milliseconds without loading progress before the load is given up
+  loadTimeout?: number;
+  // Deliver bursts of high-frequency events once per animation frame
+  coalesceFrames?: boolean;
+  // Crashes tolerated within the recovery window before giving up
+  maxRecoveryAttempts?: number;
 }
 
+export type UnityMessagePriority = 'critical' | 'high' | 'normal' | 'low';
+
 export interface UnityMessageQueue {
   method: UnityMethod;
   data: any;
   timestamp: number;
   retries: number;
+  priority: UnityMessagePriority;
+  gameObject?: string;
+  requestId?: string;
 }
 
 // Unity Error Types
+export type UnityErrorCode = 'TIMEOUT' | 'SEND_FAILED' | 'UNITY_ERROR' | 'INVALID_PAYLOAD' | 'INVALID_RESPONSE' | 'LOAD_FAILED' | 'QUEUE_FULL' | 'UNSUPPORTED_METHOD' | 'UNITY_CRASHED';
+
 export interface UnityError {
-  code: string;
+  code: UnityErrorCode | string;
   message: string;
   stack?: string;
 }
 
+export interface UnityValidationError extends UnityError {
+  code: 'INVALID_PAYLOAD';
+  event: string;
+  path: string;
+  expected: string;
+  received: string;
+}
+
 // Unity Loading States
 export type UnityLoadingState = 'idle' | 'loading' | 'ready' | 'error';
 
+// ui-ready covers the time between Unity starting and the UI finishing its handshake
+export type UnityLoadingStage = 'download' | 'decompress' | 'runtime-init' | 'ui-ready';
+
+export interface UnityLoadingStatus {
+  state: UnityLoadingState;
+  previous: UnityLoadingState;
+  progress: number;
+  stage?: UnityLoadingStage;
+  loader?: UnityLoaderGeneration | 'mock';
+  error?: UnityError;
+}
+
+// Unity Crash Recovery Types
+export type UnityCrashReason = 'abort' | 'context-lost' | 'wasm-exception';
+
+export interface UnityCrashReport {
+  reason: UnityCrashReason;
+  message: string;
+  timestamp: number;
+}
+
+export interface UnityRecoveryStatus {
+  crash: UnityCrashReport;
+  attempt: number;
+  restored: boolean;
+}
+
 // Unity Performance Types
 export interface UnityPerformance {
   fps: number;
+  // Megabytes
   memory: number;
   drawCalls: number;
   triangles: number;
   vertices: number;
 }
 
+export interface UnityPerformanceThreshold {
+  // Warn when the metric goes below min or above max
+  min?: number;
+  max?: number;
+}
+
 // Unity Build Configuration
 export interface UnityBuildConfig {
   targetPlatform: 'WebGL';
@@ -244,6 +475,22 @@ export interface UnityQualitySettings {
   renderScale: number;
 }
 
+export type UnityQualityPreset = 'low' | 'medium' | 'high' | 'ultra';
+
+// What the player picked; overrides are applied on top of the preset
+export interface UnityQualityPreferences {
+  preset: UnityQualityPreset;
+  overrides: Partial<UnityQualitySettings>;
+  adaptive: boolean;
+}
+
+export interface UnityQualityRequest {
+  preset: UnityQualityPreset | 'custom';
+  settings: UnityQualitySettings;
+  // Index of the adaptive step currently applied, 0 when running at full quality
+  adaptiveStep: number;
+}
+
 // Unity Mobile Optimization
 export interface UnityMobileOptimization {
   enableMobileOptimization: boolean;
@@ -256,5 +503,55 @@ export interface UnityMobileOptimization {
   maxParticleCount: number;
 }
 
+// Device Profile Types
+export type UnityDeviceProfile = 'desktop' | 'mobile-high' | 'mobile-low';
+
+export interface UnityDeviceCapabilities {
+  touch: boolean;
+  coarsePointer: boolean;
+  screenWidth: number;
+  screenHeight: number;
+  pixelRatio: number;
+  // Gigabytes, only reported by Chromium browsers
+  deviceMemory?: number;
+  hardwareConcurrency?: number;
+  maxTextureSize: number;
+  textureCompression: UnityMobileOptimization['textureCompression'] | null;
+  renderer?: string;
+}
+
+export interface UnityDeviceProfileRequest {
+  profile: UnityDeviceProfile;
+  // True when the player picked the profile instead of the detector
+  manual: boolean;
+  optimization: UnityMobileOptimization;
+}
+
+// Focus and Visibility Types
+// hidden: the tab is in the background or minimised; blurred: visible but another window has focus
+export type UnityFocusState = 'active' | 'blurred' | 'hidden';
+
+// What the game does while the page is hidden or blurred
+export type UnityFocusPolicy = 'pause' | 'throttle' | 'run';
+
+export interface UnityFocusPolicies {
+  hidden: UnityFocusPolicy;
+  blurred: UnityFocusPolicy;
+}
+
+export interface UnityPauseRequest {
+  reason: Exclude<UnityFocusState, 'active'>;
+  mode: Exclude<UnityFocusPolicy, 'run'>;
+  // Frame rate Unity drops to while throttled
+  targetFramerate?: number;
+}
+
+export interface UnityResumeRequest {
+  // Milliseconds since the game stopped running at full speed, so Unity can catch up
+  elapsedMs: number;
+  // How the game spent that time
+  mode: Exclude<UnityFocusPolicy, 'run'>;
+}
+
 // Export global types
-export {};
\ No newline at end of file
+export {};
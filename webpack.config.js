@@ -2,21 +2,71 @@ const path = require('path');
 const HtmlWebpackPlugin = require('html-webpack-plugin');
 const MiniCssExtractPlugin = require('mini-css-extract-plugin');
 const { CleanWebpackPlugin } = require('clean-webpack-plugin');
+const crypto = require('crypto');
+const fs = require('fs');
+const unityConfig = require('./config/unity-config.json');
+const steamConfig = require('./config/steam-config.json');
+const { version: packageVersion } = require('./package.json');
+
+const OUTPUT_PATH = path.resolve(__dirname, 'builds/webgl');
+// Left behind by `npm run build:unity`, so cleaning the output must not remove them
+const UNITY_OUTPUT_DIRS = [unityConfig.buildPaths.buildPath, unityConfig.buildPaths.streamingAssetsPath];
+
+function listFiles(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .flatMap(entry => entry.isDirectory() ? listFiles(path.join(dir, entry.name)) : [path.join(dir, entry.name)])
+    .sort();
+}
+
+// The service worker serves the Unity build cache-first under this version, so it must change whenever the build does
+function resolveBuildVersion(isProduction) {
+  if (process.env.UNITY_BUILD_VERSION) {
+    return process.env.UNITY_BUILD_VERSION;
+  }
+
+  const buildDir = path.join(OUTPUT_PATH, unityConfig.buildPaths.buildPath);
+  if (fs.existsSync(buildDir)) {
+    const hash = crypto.createHash('sha256');
+    listFiles(buildDir).forEach(file => {
+      hash.update(path.relative(buildDir, file));
+      hash.update(fs.readFileSync(file));
+    });
+    return `${packageVersion}-${hash.digest('hex').slice(0, 12)}`;
+  }
+
+  if (isProduction) {
+    throw new Error(`No Unity build in ${buildDir} to version the web build against. Run \`npm run build:unity\` first or set UNITY_BUILD_VERSION.`);
+  }
+  return `${packageVersion}-dev`;
+}
 
 module.exports = (env, argv) => {
   const isProduction = argv.mode === 'production';
   
+  // The parts of GameConfig the UI reads, baked into the bundle (see web-assets/src/js/game-config.ts)
+  const gameConfig = {
+    unity: { ...unityConfig.buildPaths, version: resolveBuildVersion(isProduction) },
+    // Only the save settings; the rest of the Steam config holds the Web API key
+    steam: { cloudSaves: steamConfig.cloudSaves }
+  };
+  
   return {
     entry: {
       'game-ui': './web-assets/src/js/game-ui.ts',
       'unity-bridge': './web-assets/src/js/unity-bridge.ts',
-      'steam-integration': './web-assets/src/js/steam-integration.ts'
+      'steam-integration': './web-assets/src/js/steam-integration.ts',
+      'service-worker': './web-assets/src/js/service-worker.ts'
     },
     
     output: {
-      path: path.resolve(__dirname, 'builds/webgl'),
-      filename: isProduction ? 'static/js/[name].[contenthash].js' : 'static/js/[name].js',
-      clean: true,
+      path: OUTPUT_PATH,
+      // The service worker needs a stable URL at the site root to control every page
+      filename: (pathData) => pathData.chunk.name === 'service-worker'
+        ? 'service-worker.js'
+        : (isProduction ? 'static/js/[name].[contenthash].js' : 'static/js/[name].js'),
+      clean: {
+        keep: asset => UNITY_OUTPUT_DIRS.some(dir => asset.startsWith(`${dir}/`))
+      },
       publicPath: '/'
     },
     
@@ -132,12 +182,13 @@ module.exports = (env, argv) => {
     
     optimization: {
       splitChunks: {
-        chunks: 'all',
+        // Workers cannot load split chunks through the page's script tags
+        chunks: (chunk) => chunk.name !== 'service-worker',
         cacheGroups: {
           vendor: {
             test: /[\\/]node_modules[\\/]/,
             name: 'vendors',
-            chunks: 'all'
+            chunks: (chunk) => chunk.name !== 'service-worker'
           }
         }
       }
@@ -158,11 +209,14 @@ module.exports = (env, argv) => {
     },
     
     plugins: [
-      new CleanWebpackPlugin(),
+      new CleanWebpackPlugin({
+        cleanOnceBeforeBuildPatterns: ['**/*', ...UNITY_OUTPUT_DIRS.map(dir => `!${dir}/**`)]
+      }),
       
       // Define process for browser
       new (require('webpack')).DefinePlugin({
-        'process.env': JSON.stringify(process.env)
+        'process.env': JSON.stringify(process.env),
+        GAME_CONFIG: JSON.stringify(gameConfig)
       }),
       
       new HtmlWebpackPlugin({